@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test"
+import type { ConfigFile } from "../../services/configStore"
+import { parseTimeout, resolveConfig } from "../config"
+
+const file: ConfigFile = {
+  currentProfile: "home",
+  profiles: {
+    home: { host: "https://home:5001", opItem: "Home NAS", timeoutMs: 20000 },
+    office: { host: "https://office:5001", sessionCache: false },
+  },
+  defaults: { allowInsecure: true, timeoutMs: 30000, destination: "downloads" },
+}
+
+describe("config resolution", () => {
+  test("prefers flags, then env vars, then the profile, then defaults", () => {
+    const resolved = resolveConfig(
+      { host: "https://flag:5001", sessionCache: true },
+      { SYNOLOGY_URL: "https://env:5001", SYNOLOGY_OP_ITEM: "Env NAS", SYNOLOGY_INSECURE: "no" },
+      file,
+    )
+    expect(resolved.profile).toEqual({ value: "home", source: "config" })
+    expect(resolved.host).toEqual({ value: "https://flag:5001", source: "flag" })
+    expect(resolved.opItem).toEqual({ value: "Env NAS", source: "env", origin: "SYNOLOGY_OP_ITEM" })
+    expect(resolved.allowInsecure).toEqual({ value: false, source: "env", origin: "SYNOLOGY_INSECURE" })
+    expect(resolved.timeoutMs).toEqual({ value: 20000, source: "profile", origin: "home" })
+    expect(resolved.destination).toEqual({ value: "downloads", source: "config" })
+    // commander always sets sessionCache to true unless --no-session-cache is passed.
+    expect(resolved.sessionCache).toEqual({ value: true, source: "default" })
+    expect(resolved.opVault).toEqual({ value: undefined, source: "default" })
+  })
+
+  test("picks the profile from --profile or SYNOLOGY_PROFILE", () => {
+    const fromEnv = resolveConfig({}, { SYNOLOGY_PROFILE: "office" }, file)
+    expect(fromEnv.profile).toEqual({ value: "office", source: "env", origin: "SYNOLOGY_PROFILE" })
+    expect(fromEnv.host.value).toBe("https://office:5001")
+    expect(fromEnv.sessionCache).toEqual({ value: false, source: "profile", origin: "office" })
+
+    const fromFlag = resolveConfig({ profile: "home", sessionCache: false }, { SYNOLOGY_PROFILE: "office" }, file)
+    expect(fromFlag.host.value).toBe("https://home:5001")
+    expect(fromFlag.sessionCache).toEqual({ value: false, source: "flag" })
+  })
+
+  test("rejects malformed values", () => {
+    expect(() => resolveConfig({ timeout: "soon" }, {}, file)).toThrow("--timeout must be a positive number")
+    expect(() => resolveConfig({ timeout: "0" }, {}, file)).toThrow("--timeout must be a positive number")
+    expect(() => parseTimeout("0", "--timeout")).toThrow("--timeout must be a positive number")
+    expect(() => resolveConfig({}, { SYNOLOGY_TIMEOUT: "-5" }, file)).toThrow("SYNOLOGY_TIMEOUT must be a positive number")
+    expect(() => resolveConfig({}, { SYNOLOGY_SESSION_CACHE: "maybe" }, file)).toThrow("SYNOLOGY_SESSION_CACHE must be true or false")
+    expect(() => resolveConfig({}, { SYNOLOGY_CREDENTIALS: "keepass" }, file)).toThrow("SYNOLOGY_CREDENTIALS: Unknown credential provider")
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test"
+import type { Task } from "../../types/synology"
+import { CLIError } from "../exitCodes"
+import { formatTasks, parseColumns, parseOutputFormat, toTaskRecord } from "../output"
+
+const task: Task = {
+  id: "dbid_1",
+  username: "admin",
+  type: "bt",
+  title: "ubuntu, desktop.iso",
+  size: 2048,
+  status: 2,
+  additional: {
+    transfer: { size_downloaded: 1024, speed_download: 512 },
+    detail: { destination: "downloads", created_time: 1_700_000_000 },
+  },
+}
+
+describe("task output", () => {
+  test("toTaskRecord fills missing fields with null", () => {
+    const record = toTaskRecord(task)
+    expect(record.status_text).toBe("downloading")
+    expect(record.progress).toBe(50)
+    expect(record.transfer.size_uploaded).toBeNull()
+    expect(record.detail.uri).toBeNull()
+    expect(record.detail.created_time).toBe(1_700_000_000)
+  })
+
+  test("ndjson emits one record per line", () => {
+    const output = formatTasks([task, { ...task, id: "dbid_2" }], "ndjson")
+    const lines = output.split("\n")
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[1]).id).toBe("dbid_2")
+  })
+
+  test("csv quotes values and honours column selection", () => {
+    const output = formatTasks([task], "csv", ["id", "title", "downloaded"])
+    expect(output.split("\n")).toEqual(["id,title,downloaded", 'dbid_1,"ubuntu, desktop.iso",1024'])
+  })
+
+  test("table uses human-readable formatting", () => {
+    const output = formatTasks([task], "table", ["id", "progress", "download_speed"])
+    const [header, row] = output.split("\n")
+    expect(header).toBe("ID      Progress  Down")
+    expect(row).toBe("dbid_1  50%       512 B/s")
+  })
+
+  test("rejects unknown formats and columns", () => {
+    expect(() => parseOutputFormat("xml")).toThrow(CLIError)
+    expect(() => parseColumns("id,bogus")).toThrow("Unknown column(s): bogus")
+    expect(parseOutputFormat("JSON")).toBe("json")
+  })
+})
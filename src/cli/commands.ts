@@ -0,0 +1,969 @@
+import fs from "node:fs"
+import type { Command } from "commander"
+import type { SynologyClient } from "../services/SynologyClient"
+import {
+  addProfile,
+  currentProfileName,
+  listProfiles,
+  loadConfigFile,
+  removeProfile,
+  useProfile,
+  type StoredConfig,
+} from "../services/configStore"
+import { listDeviceTokens, removeDeviceTokens } from "../services/deviceTokenStore"
+import { listSessions, sessionEncryption, type SessionEncryption } from "../services/sessionStore"
+import type { FailedTask, SettingsPatch } from "../types/synology"
+import { normalizeDestination } from "../utils/destination"
+import { compileFileSelector, type FileMatcher } from "../utils/fileSelection"
+import { describeRssFilter, describeTaskError, formatAge, formatBytes, formatTimestamp } from "../utils/formatting"
+import { describeSchedule, formatRate, parseRate } from "../utils/rates"
+import {
+  SETTING_DEFINITIONS,
+  findSetting,
+  formatSettingValue,
+  parseSettingValue,
+  parseSettingsExport,
+  readSetting,
+  setSettingInPatch,
+  toSettingsExport,
+  type SettingDefinition,
+} from "../utils/settingsSchema"
+import {
+  RESOLVED_KEYS,
+  parseBoolean,
+  parseCredentialOption,
+  parseTimeout,
+  resolveConfig,
+  type ResolvedConfig,
+  type ResolvedValue,
+} from "./config"
+import { CLIError, ExitCode } from "./exitCodes"
+import {
+  AVAILABLE_COLUMNS,
+  DEFAULT_COLUMNS,
+  OUTPUT_FORMATS,
+  formatTasks,
+  parseColumns,
+  parseOutputFormat,
+} from "./output"
+import {
+  currentDestination,
+  initProfile,
+  isInteractive,
+  isSessionStale,
+  logoutCachedSession,
+  normalizeHost,
+  openSession,
+  openSessionCache,
+  rekeySessionCache,
+  unlockSessionCache,
+  type CLIOptions,
+  type LogoutResult,
+  type SessionContext,
+} from "./session"
+
+const SELECT_DESCRIPTION = "Only download files matching a glob or /regex/ (repeatable, prefix ! to exclude)"
+
+// `rss download` looks items up by ID; feeds rarely keep more than this many.
+const RSS_ITEM_LOOKUP_LIMIT = 500
+
+const ENCRYPTION_LABELS: Record<SessionEncryption, string> = {
+  passphrase: "a passphrase",
+  keyring: "a key in the Secret Service keyring",
+}
+
+const DESTINATION_DESCRIPTION = "Download folder, e.g. downloads/movies (defaults to the last used destination)"
+
+interface CreateOptions {
+  select: string[]
+  destination?: string
+}
+
+interface LimitOptions {
+  download?: string
+  upload?: string
+  schedule?: string
+  task: string[]
+}
+
+const LOGOUT_MESSAGES: Record<LogoutResult, string> = {
+  "logged-out": "logged out",
+  expired: "session had already expired",
+  "no-session": "no cached session",
+}
+
+interface RssFilterOptions {
+  name: string
+  match: string
+  exclude?: string
+  destination?: string
+  disabled?: boolean
+}
+
+interface ListOptions {
+  output: string
+  columns?: string
+}
+
+export function registerCommands(program: Command) {
+  program
+    .command("list")
+    .description("List download tasks")
+    .option("-o, --output <format>", `Output format: ${OUTPUT_FORMATS.join(", ")}`, "table")
+    .option("--columns <list>", `Comma-separated columns for table/csv (${AVAILABLE_COLUMNS.join(", ")})`)
+    .action(async (options: ListOptions, command: Command) => {
+      const format = parseOutputFormat(options.output)
+      const columns = options.columns ? parseColumns(options.columns) : DEFAULT_COLUMNS
+      const { initialTasks } = await openSession(command.optsWithGlobals<CLIOptions>())
+      const output = formatTasks(initialTasks, format, columns)
+      if (output.length > 0) {
+        console.log(output)
+      }
+    })
+
+  program
+    .command("add")
+    .description("Create download tasks from one or more URLs")
+    .argument("<urls...>", "URLs to download")
+    .option("--select <pattern>", SELECT_DESCRIPTION, collect, [])
+    .option("--destination <path>", DESTINATION_DESCRIPTION)
+    .action(async (urls: string[], options: CreateOptions, command: Command) => {
+      const matcher = options.select.length > 0 ? compileSelector(options.select) : undefined
+      const session = await openSession(command.optsWithGlobals<CLIOptions>())
+      const { client } = session
+      const destination = resolveDestination(session, options.destination)
+      const results = client.validateUrls(urls)
+      const valid = results.flatMap((result) => (result.valid ? [result.uri] : []))
+      for (const result of results) {
+        if (!result.valid) {
+          console.error(`${result.input}: ${result.error}`)
+        }
+      }
+      let selectFailed = 0
+      if (valid.length > 0 && matcher) {
+        selectFailed = await downloadSelectedEach(valid, (url) => client.prepareTaskFromUrl(url, destination), client, matcher, destination)
+        if (selectFailed < valid.length) {
+          rememberDestination(session, options.destination, destination)
+        }
+      } else if (valid.length > 0) {
+        await client.createTasksFromUrls(valid, destination)
+        rememberDestination(session, options.destination, destination)
+        console.log(valid.length > 1 ? `Created ${valid.length} tasks.` : "Task created.")
+      }
+      if (selectFailed > 0) {
+        const failed = urls.length - valid.length + selectFailed
+        throw new CLIError(`${failed} of ${urls.length} URL(s) failed.`, ExitCode.Failure)
+      }
+      if (valid.length < urls.length) {
+        throw new CLIError(`${urls.length - valid.length} of ${urls.length} URL(s) were invalid.`, ExitCode.Failure)
+      }
+    })
+
+  program
+    .command("upload")
+    .description("Create download tasks from local .torrent or .nzb files")
+    .argument("<files...>", "Paths to .torrent or .nzb files")
+    .option("--select <pattern>", SELECT_DESCRIPTION, collect, [])
+    .option("--destination <path>", DESTINATION_DESCRIPTION)
+    .action(async (files: string[], options: CreateOptions, command: Command) => {
+      const matcher = options.select.length > 0 ? compileSelector(options.select) : undefined
+      const session = await openSession(command.optsWithGlobals<CLIOptions>())
+      const { client } = session
+      const destination = resolveDestination(session, options.destination)
+      if (matcher) {
+        const failed = await downloadSelectedEach(files, (file) => client.prepareTaskFromFile(file, destination), client, matcher, destination)
+        if (failed < files.length) {
+          rememberDestination(session, options.destination, destination)
+        }
+        if (failed > 0) {
+          throw new CLIError(`${failed} of ${files.length} file(s) failed.`, ExitCode.Failure)
+        }
+        return
+      }
+      await client.createTasksFromFiles(files, destination)
+      rememberDestination(session, options.destination, destination)
+      console.log(files.length > 1 ? `Created ${files.length} tasks.` : "Task created.")
+    })
+
+  program
+    .command("pause")
+    .description("Pause tasks by ID")
+    .argument("<ids...>", "Task IDs")
+    .action(async (ids: string[], _options, command: Command) => {
+      const { client } = await openSession(command.optsWithGlobals<CLIOptions>())
+      await reportTaskOperation(ids, (batch) => client.pauseTasks(batch), "Paused")
+    })
+
+  program
+    .command("resume")
+    .description("Resume tasks by ID")
+    .argument("<ids...>", "Task IDs")
+    .action(async (ids: string[], _options, command: Command) => {
+      const { client } = await openSession(command.optsWithGlobals<CLIOptions>())
+      await reportTaskOperation(ids, (batch) => client.resumeTasks(batch), "Resumed")
+    })
+
+  program
+    .command("delete")
+    .description("Delete tasks by ID")
+    .argument("<ids...>", "Task IDs")
+    .option("--force", "Force-complete the task instead of discarding it")
+    .action(async (ids: string[], options: { force?: boolean }, command: Command) => {
+      const { client } = await openSession(command.optsWithGlobals<CLIOptions>())
+      await reportTaskOperation(ids, (batch) => client.deleteTasks(batch, options.force ?? false), "Deleted")
+    })
+
+  program
+    .command("limit")
+    .description("Show or change global and per-task speed limits")
+    .option("--download <rate>", "Download limit, e.g. 500K, 2M or unlimited")
+    .option("--upload <rate>", "Upload limit, e.g. 500K, 2M or unlimited")
+    .option("--schedule <on|off>", "Enable or disable the alternate-speed schedule")
+    .option("--task <id>", "Apply the limits to a BitTorrent task instead (repeatable)", collect, [])
+    .action(async (options: LimitOptions, command: Command) => {
+      const download = options.download === undefined ? undefined : parseRateOption("--download", options.download)
+      const upload = options.upload === undefined ? undefined : parseRateOption("--upload", options.upload)
+      const schedule = options.schedule === undefined ? undefined : parseBoolean(options.schedule, "--schedule")
+      if (options.task.length > 0) {
+        if (download === undefined && upload === undefined) {
+          throw new CLIError("--task needs --download and/or --upload.", ExitCode.Usage)
+        }
+        if (schedule !== undefined) {
+          throw new CLIError("--schedule applies to global limits only.", ExitCode.Usage)
+        }
+      }
+      const { client } = await openDownloadStation2Session(command, "limit")
+      if (options.task.length > 0) {
+        await client.setTaskSpeedLimit(options.task, { max_download_rate: download, max_upload_rate: upload })
+        console.log(`Updated limits for ${options.task.join(", ")}.`)
+        return
+      }
+      if (download !== undefined || upload !== undefined) {
+        await client.setGlobalSpeedLimit({ download, upload })
+      }
+      if (schedule !== undefined) {
+        await client.setSettings("scheduler", { enabled: schedule })
+      }
+      const limits = await client.getSpeedLimits()
+      console.log(`BitTorrent   ↓ ${formatRate(limits.btDownload)}  ↑ ${formatRate(limits.btUpload)}`)
+      console.log(`HTTP/FTP     ↓ ${formatRate(limits.ftpHttpDownload)}`)
+      console.log(`NZB          ↓ ${formatRate(limits.nzbDownload)}`)
+      console.log(`Alt. speed   ${describeSchedule(limits.scheduler)}`)
+    })
+
+  const settings = program.command("settings").description("View, change, export or import Download Station settings")
+
+  settings
+    .command("get")
+    .description("Print settings (all of them unless keys are given)")
+    .argument("[keys...]", `Setting keys (${SETTING_DEFINITIONS.map((entry) => entry.key).join(", ")})`)
+    .option("--json", "Print a JSON object keyed by setting name")
+    .action(async (keys: string[], options: { json?: boolean }, command: Command) => {
+      const definitions = keys.length > 0 ? keys.map(findSettingOption) : SETTING_DEFINITIONS
+      const { client } = await openDownloadStation2Session(command, "settings")
+      const current = await client.getAllSettings()
+      if (options.json) {
+        const values = Object.fromEntries(definitions.map((entry) => [entry.key, readSetting(current, entry) ?? null]))
+        console.log(JSON.stringify(values, null, 2))
+        return
+      }
+      const width = Math.max(...definitions.map((entry) => entry.key.length))
+      for (const definition of definitions) {
+        const value = formatSettingValue(definition, readSetting(current, definition))
+        console.log(`${definition.key.padEnd(width)}  ${value.padEnd(12)}  ${definition.description}`)
+      }
+    })
+
+  settings
+    .command("set")
+    .description("Change one or more settings, e.g. bt.port=51413 unzip.enabled=on")
+    .argument("<assignments...>", "key=value pairs")
+    .action(async (assignments: string[], _options, command: Command) => {
+      let patch: SettingsPatch = {}
+      for (const assignment of assignments) {
+        const separator = assignment.indexOf("=")
+        if (separator <= 0) {
+          throw new CLIError(`Expected key=value, got "${assignment}".`, ExitCode.Usage)
+        }
+        const definition = findSettingOption(assignment.slice(0, separator))
+        try {
+          patch = setSettingInPatch(patch, definition, parseSettingValue(definition, assignment.slice(separator + 1)))
+        } catch (error) {
+          throw new CLIError(error instanceof Error ? error.message : String(error), ExitCode.Usage)
+        }
+      }
+      const { client } = await openDownloadStation2Session(command, "settings")
+      await client.applySettings(patch)
+      console.log(`Updated ${assignments.length} setting(s).`)
+    })
+
+  settings
+    .command("export")
+    .description("Write all settings to a JSON file (stdout when no file is given)")
+    .argument("[file]", "Destination file")
+    .action(async (file: string | undefined, _options, command: Command) => {
+      const { client, host } = await openDownloadStation2Session(command, "settings")
+      const output = `${JSON.stringify(toSettingsExport(await client.getAllSettings(), host), null, 2)}\n`
+      if (!file) {
+        process.stdout.write(output)
+        return
+      }
+      fs.writeFileSync(file, output)
+      console.log(`Exported settings to ${file}.`)
+    })
+
+  settings
+    .command("import")
+    .description("Apply settings from a file created by `settings export`")
+    .argument("<file>", "Settings JSON file")
+    .option("--dry-run", "Validate the file and print the changes without applying them")
+    .action(async (file: string, options: { dryRun?: boolean }, command: Command) => {
+      const patch = readSettingsFile(file)
+      const { client } = await openDownloadStation2Session(command, "settings")
+      const current = await client.getAllSettings()
+      const changes = SETTING_DEFINITIONS.filter((definition) => {
+        const next = readSetting(patch, definition)
+        return next !== undefined && next !== readSetting(current, definition)
+      })
+      for (const definition of changes) {
+        const before = formatSettingValue(definition, readSetting(current, definition))
+        const after = formatSettingValue(definition, readSetting(patch, definition))
+        console.log(`${definition.key}: ${before} → ${after}`)
+      }
+      if (changes.length === 0) {
+        console.log("Settings already match; nothing to change.")
+        return
+      }
+      if (options.dryRun) {
+        console.log(`Dry run: ${changes.length} setting(s) would change.`)
+        return
+      }
+      await client.applySettings(patch)
+      console.log(`Imported ${changes.length} setting(s).`)
+    })
+
+  const rss = program.command("rss").description("Manage RSS feeds and auto-download filters")
+
+  rss
+    .command("list")
+    .description("List RSS feeds")
+    .option("--json", "Print feeds as JSON")
+    .action(async (options: { json?: boolean }, command: Command) => {
+      const { client } = await openDownloadStation2Session(command, "rss")
+      const feeds = await client.listRssFeeds()
+      if (options.json) {
+        console.log(JSON.stringify(feeds, null, 2))
+        return
+      }
+      for (const feed of feeds) {
+        console.log(`${String(feed.id).padEnd(6)}${feed.title}  ${feed.url}  (updated ${formatTimestamp(feed.last_update)})`)
+      }
+    })
+
+  rss
+    .command("add")
+    .description("Subscribe to an RSS feed")
+    .argument("<url>", "Feed URL")
+    .action(async (url: string, _options, command: Command) => {
+      const { client } = await openDownloadStation2Session(command, "rss")
+      await client.addRssFeed(url)
+      console.log("Feed added.")
+    })
+
+  rss
+    .command("remove")
+    .description("Unsubscribe from RSS feeds")
+    .argument("<ids...>", "Feed IDs")
+    .action(async (ids: string[], _options, command: Command) => {
+      const feedIds = ids.map((id) => parseId("feed", id))
+      const { client } = await openDownloadStation2Session(command, "rss")
+      await client.removeRssFeeds(feedIds)
+      console.log(`Removed ${feedIds.length} feed(s).`)
+    })
+
+  rss
+    .command("refresh")
+    .description("Re-fetch RSS feeds (all of them unless IDs are given)")
+    .argument("[ids...]", "Feed IDs")
+    .action(async (ids: string[], _options, command: Command) => {
+      const feedIds = ids.map((id) => parseId("feed", id))
+      const { client } = await openDownloadStation2Session(command, "rss")
+      await client.refreshRssFeeds(feedIds)
+      console.log("Refresh requested.")
+    })
+
+  rss
+    .command("items")
+    .description("List the items of a feed")
+    .argument("<feed-id>", "Feed ID")
+    .option("--limit <n>", "Maximum number of items", "50")
+    .option("--json", "Print items as JSON")
+    .action(async (feedId: string, options: { limit: string; json?: boolean }, command: Command) => {
+      const id = parseId("feed", feedId)
+      const limit = parseId("--limit", options.limit)
+      const { client } = await openDownloadStation2Session(command, "rss")
+      const { items, total } = await client.listRssItems(id, 0, limit)
+      if (options.json) {
+        console.log(JSON.stringify(items, null, 2))
+        return
+      }
+      for (const item of items) {
+        console.log(`${item.id.padEnd(12)}${item.is_new ? "* " : "  "}${item.title}  ${formatBytes(item.size)}  ${formatTimestamp(item.time)}`)
+      }
+      if (total > items.length) {
+        console.log(`…${total - items.length} more (use --limit).`)
+      }
+    })
+
+  rss
+    .command("download")
+    .description("Queue feed items as download tasks")
+    .argument("<feed-id>", "Feed ID")
+    .argument("<item-ids...>", "Item IDs from `rss items`")
+    .option("--destination <path>", DESTINATION_DESCRIPTION)
+    .action(async (feedId: string, itemIds: string[], options: { destination?: string }, command: Command) => {
+      const id = parseId("feed", feedId)
+      const session = await openDownloadStation2Session(command, "rss")
+      const destination = resolveDestination(session, options.destination)
+      const { items } = await session.client.listRssItems(id, 0, RSS_ITEM_LOOKUP_LIMIT)
+      const byId = new Map(items.map((item) => [item.id, item]))
+      const missing = itemIds.filter((itemId) => !byId.has(itemId))
+      const found = itemIds.flatMap((itemId) => byId.get(itemId) ?? [])
+      if (found.length > 0) {
+        await session.client.createTasksFromUrls(
+          found.map((item) => item.download_uri),
+          destination,
+        )
+        rememberDestination(session, options.destination, destination)
+        for (const item of found) {
+          console.log(`Queued ${item.title}`)
+        }
+      }
+      if (missing.length > 0) {
+        throw new CLIError(`Unknown item(s) in feed ${id}: ${missing.join(", ")}`, ExitCode.Failure)
+      }
+    })
+
+  const rssFilter = rss.command("filter").description("Manage auto-download filters")
+
+  rssFilter
+    .command("list")
+    .description("List the filters of a feed")
+    .argument("<feed-id>", "Feed ID")
+    .option("--json", "Print filters as JSON")
+    .action(async (feedId: string, options: { json?: boolean }, command: Command) => {
+      const id = parseId("feed", feedId)
+      const { client } = await openDownloadStation2Session(command, "rss")
+      const filters = await client.listRssFilters(id)
+      if (options.json) {
+        console.log(JSON.stringify(filters, null, 2))
+        return
+      }
+      for (const filter of filters) {
+        console.log(`${String(filter.id).padEnd(6)}${filter.enabled ? "on " : "off"} ${describeRssFilter(filter)}`)
+      }
+    })
+
+  rssFilter
+    .command("add")
+    .description("Create a filter that queues matching items automatically")
+    .argument("<feed-id>", "Feed ID")
+    .requiredOption("--name <name>", "Filter name")
+    .requiredOption("--match <pattern>", "Only items whose title matches")
+    .option("--exclude <pattern>", "Skip items whose title matches")
+    .option("--destination <path>", DESTINATION_DESCRIPTION)
+    .option("--disabled", "Create the filter switched off")
+    .action(async (feedId: string, options: RssFilterOptions, command: Command) => {
+      const id = parseId("feed", feedId)
+      const session = await openDownloadStation2Session(command, "rss")
+      // A filter's folder is its own setting; it must not become the remembered destination for new tasks.
+      const destination =
+        options.destination === undefined ? currentDestination(session) : normalizeDestination(options.destination)
+      if (!destination) {
+        throw new CLIError("Filters need a destination; pass --destination.", ExitCode.Usage)
+      }
+      await session.client.addRssFilter(id, {
+        name: options.name,
+        match: options.match,
+        not_match: options.exclude ?? "",
+        destination,
+        enabled: !options.disabled,
+      })
+      console.log(`Filter "${options.name}" added.`)
+    })
+
+  rssFilter
+    .command("set")
+    .description("Change an existing filter")
+    .argument("<filter-id>", "Filter ID")
+    .option("--name <name>", "Filter name")
+    .option("--match <pattern>", "Only items whose title matches")
+    .option("--exclude <pattern>", "Skip items whose title matches (empty string clears it)")
+    .option("--destination <path>", "Download folder")
+    .option("--enabled <on|off>", "Switch the filter on or off")
+    .action(async (filterId: string, options: Partial<RssFilterOptions> & { enabled?: string }, command: Command) => {
+      const id = parseId("filter", filterId)
+      const changes = {
+        name: options.name,
+        match: options.match,
+        not_match: options.exclude,
+        destination: options.destination === undefined ? undefined : normalizeDestination(options.destination),
+        enabled: options.enabled === undefined ? undefined : parseBoolean(options.enabled, "--enabled"),
+      }
+      if (Object.values(changes).every((value) => value === undefined)) {
+        throw new CLIError("Nothing to change; pass at least one option.", ExitCode.Usage)
+      }
+      const { client } = await openDownloadStation2Session(command, "rss")
+      await client.updateRssFilter(id, changes)
+      console.log(`Filter ${id} updated.`)
+    })
+
+  rssFilter
+    .command("remove")
+    .description("Delete a filter")
+    .argument("<filter-id>", "Filter ID")
+    .action(async (filterId: string, _options, command: Command) => {
+      const id = parseId("filter", filterId)
+      const { client } = await openDownloadStation2Session(command, "rss")
+      await client.removeRssFilter(id)
+      console.log(`Filter ${id} removed.`)
+    })
+
+  program
+    .command("logout")
+    .description("End the cached DSM session for the configured host (or every host with --all)")
+    .option("--all", "Log out of every cached session")
+    .action(async (options: { all?: boolean }, command: Command) => {
+      const globals = command.optsWithGlobals<CLIOptions>()
+      const config = resolveConfig(globals)
+      await unlockSessionCache(isInteractive(globals))
+      const hosts = options.all ? listSessions().map(([host]) => host) : [resolveConfiguredHost(config)]
+      const allowInsecure = config.allowInsecure.value
+      const timeoutMs = config.timeoutMs.value
+      let failures = 0
+      for (const host of hosts) {
+        try {
+          const result = await logoutCachedSession(host, { allowInsecure, timeoutMs })
+          console.log(`${host}: ${LOGOUT_MESSAGES[result]}`)
+        } catch (error) {
+          failures += 1
+          console.error(`${host}: ${error instanceof Error ? error.message : String(error)} (cached session removed)`)
+        }
+      }
+      if (failures > 0) {
+        throw new CLIError(`${failures} of ${hosts.length} logout(s) could not reach the NAS.`, ExitCode.Failure)
+      }
+    })
+
+  const session = program.command("session").description("Inspect cached DSM sessions")
+
+  session
+    .command("status")
+    .description("Show cached sessions with user, age and host")
+    .action(async (_options, command: Command) => {
+      const globals = command.optsWithGlobals<CLIOptions>()
+      const host = resolveConfig(globals).host.value
+      const active = host ? normalizeHost(host) : undefined
+      const encryption = sessionEncryption()
+      if (encryption) {
+        console.log(`Sessions are encrypted with ${ENCRYPTION_LABELS[encryption]}.`)
+        if (!(await unlockSessionCache(isInteractive(globals)))) {
+          return
+        }
+      }
+      const sessions = listSessions()
+      if (sessions.length === 0) {
+        console.log("No cached sessions.")
+        return
+      }
+      const now = Date.now()
+      for (const [sessionHost, state] of sessions) {
+        const marker = active && sessionHost === active.toLowerCase() ? "*" : " "
+        const confirmed = state.updatedAt ? formatAge(now - Date.parse(state.updatedAt)) : "never"
+        const stateText = !state.sid ? "signed out" : isSessionStale(state, now) ? "stale, re-checked on next use" : "active"
+        console.log(`${marker} ${sessionHost}  ${state.username ?? "-"}  ${stateText}  confirmed ${confirmed}`)
+      }
+    })
+
+  session
+    .command("rekey")
+    .description("Encrypt cached sessions under a new passphrase (or a keyring key), or decrypt them with --plaintext")
+    .option("--keyring", "Keep a random key in the Secret Service keyring instead of asking for a passphrase")
+    .option("--plaintext", "Store sessions unencrypted again")
+    .action(async (options: { keyring?: boolean; plaintext?: boolean }, command: Command) => {
+      if (options.keyring && options.plaintext) {
+        throw new CLIError("Choose either --keyring or --plaintext.", ExitCode.Usage)
+      }
+      const interactive = isInteractive(command.optsWithGlobals<CLIOptions>())
+      try {
+        await openSessionCache(interactive)
+      } catch (error) {
+        throw new CLIError(
+          `Unable to unlock the current session cache: ${error instanceof Error ? error.message : String(error)}`,
+          ExitCode.AuthFailed,
+        )
+      }
+      const target = options.plaintext ? undefined : options.keyring ? "keyring" : "passphrase"
+      await rekeySessionCache(target, interactive)
+      console.log(target ? `Sessions are now encrypted with ${ENCRYPTION_LABELS[target]}.` : "Sessions are now stored in plaintext.")
+    })
+
+  const profile = program.command("profile").description("Manage named NAS profiles")
+
+  profile
+    .command("list")
+    .description("List profiles (* marks the current one)")
+    .action(() => {
+      const profiles = listProfiles()
+      if (profiles.length === 0) {
+        console.log("No profiles yet; the first run creates the default profile.")
+        return
+      }
+      const current = currentProfileName()
+      const width = Math.max(...profiles.map(([name]) => name.length))
+      for (const [name, config] of profiles) {
+        console.log(`${name === current ? "*" : " "} ${name.padEnd(width)}  ${describeProfile(config)}`)
+      }
+    })
+
+  profile
+    .command("add")
+    .description("Create a profile from --host, --insecure, --credentials, --op-item, --timeout and --no-session-cache")
+    .argument("<name>", "Profile name")
+    .option("--destination <path>", "Default download folder for this profile")
+    .option("--use", "Make it the current profile")
+    .action((name: string, options: { destination?: string; use?: boolean }, command: Command) => {
+      const globals = command.optsWithGlobals<CLIOptions>()
+      if (!globals.host) {
+        throw new CLIError("profile add needs --host.", ExitCode.Usage)
+      }
+      const destination = options.destination !== undefined ? normalizeDestination(options.destination) : undefined
+      const config: StoredConfig = {
+        host: normalizeHost(globals.host),
+        allowInsecure: globals.insecure,
+        credentials: globals.credentials ? parseCredentialOption(globals.credentials) : undefined,
+        credentialsItem: globals.credentialsItem,
+        opItem: globals.opItem,
+        opVault: globals.opVault,
+        timeoutMs: globals.timeout === undefined ? undefined : parseTimeout(globals.timeout, "--timeout"),
+        sessionCache: globals.sessionCache === false ? false : undefined,
+        destination: destination || undefined,
+      }
+      runProfileChange(() => addProfile(name, stripUndefined(config)))
+      if (options.use) {
+        runProfileChange(() => useProfile(name))
+      }
+      console.log(`Profile "${name}" added${options.use || currentProfileName() === name ? " and in use" : ""}.`)
+    })
+
+  profile
+    .command("remove")
+    .description("Delete a profile")
+    .argument("<name>", "Profile name")
+    .action((name: string) => {
+      const current = runProfileChange(() => removeProfile(name))
+      console.log(`Profile "${name}" removed. Current profile: ${current}.`)
+    })
+
+  profile
+    .command("use")
+    .description("Switch the current profile")
+    .argument("<name>", "Profile name")
+    .action((name: string) => {
+      runProfileChange(() => useProfile(name))
+      console.log(`Now using profile "${name}".`)
+    })
+
+  program
+    .command("init")
+    .description("Set up the profile interactively (host, certificates, credentials) and sign in")
+    .action(async (_options, command: Command) => {
+      const globals = command.optsWithGlobals<CLIOptions>()
+      if (!isInteractive(globals)) {
+        throw new CLIError("init asks questions and needs a terminal; use `profile add` in scripts.", ExitCode.Usage)
+      }
+      const profile = await initProfile(globals)
+      const session = await openSession({ ...globals, profile })
+      console.log(`Profile "${profile}" saved; signed in to ${session.host} as ${session.username}.`)
+    })
+
+  const config = program.command("config").description("Inspect the configuration")
+
+  config
+    .command("show")
+    .description("Print config.json, or with --resolved every effective setting and where it came from")
+    .option("--resolved", "Apply flags, SYNOLOGY_* env vars, the profile and defaults, and report each source")
+    .option("--json", "Print the resolved settings as JSON")
+    .action((options: { resolved?: boolean; json?: boolean }, command: Command) => {
+      if (!options.resolved) {
+        console.log(JSON.stringify(loadConfigFile(), null, 2))
+        return
+      }
+      const resolved = resolveConfig(command.optsWithGlobals<CLIOptions>())
+      if (options.json) {
+        console.log(JSON.stringify(resolved, null, 2))
+        return
+      }
+      const keys = ["profile", ...RESOLVED_KEYS] as const
+      const rows = keys.map((key) => [key, formatConfigValue(resolved[key].value), describeSource(resolved[key])])
+      const widths = [0, 1].map((column) => Math.max(...rows.map((row) => row[column].length)))
+      for (const [key, value, source] of rows) {
+        console.log(`${key.padEnd(widths[0])}  ${value.padEnd(widths[1])}  ${source}`)
+      }
+    })
+
+  const device = program.command("device").description("Manage trusted-device tokens that let sign-in skip the one-time code")
+
+  device
+    .command("list")
+    .description("List stored device tokens by host and user")
+    .option("--json", "Print tokens as JSON (without the token value)")
+    .action((options: { json?: boolean }) => {
+      const tokens = listDeviceTokens().map(({ deviceId: _deviceId, ...rest }) => rest)
+      if (options.json) {
+        console.log(JSON.stringify(tokens, null, 2))
+        return
+      }
+      if (tokens.length === 0) {
+        console.log("No device tokens stored.")
+        return
+      }
+      const now = Date.now()
+      for (const token of tokens) {
+        const used = token.lastUsedAt ? formatAge(now - Date.parse(token.lastUsedAt)) : "never"
+        console.log(`${token.host}  ${token.username}  "${token.deviceName}"  trusted ${formatAge(now - Date.parse(token.createdAt))}  used ${used}`)
+      }
+    })
+
+  device
+    .command("revoke")
+    .description("Forget stored device tokens so the next sign-in asks for a one-time code again")
+    .argument("[host]", "NAS the token belongs to (defaults to the configured host)")
+    .option("--user <name>", "Only revoke the token for this DSM user")
+    .option("--all", "Revoke every stored token")
+    .action((hostArg: string | undefined, options: { user?: string; all?: boolean }, command: Command) => {
+      const hosts = options.all
+        ? [...new Set(listDeviceTokens().map((token) => token.host))]
+        : [hostArg ? normalizeHost(hostArg) : resolveConfiguredHost(resolveConfig(command.optsWithGlobals<CLIOptions>()))]
+      const removed = hosts.reduce((count, host) => count + removeDeviceTokens(host, options.user), 0)
+      if (removed === 0) {
+        throw new CLIError(`No device token stored for ${options.user ? `${options.user} on ` : ""}${hosts.join(", ") || "any host"}.`, ExitCode.Failure)
+      }
+      console.log(`Revoked ${removed} device token(s).`)
+      console.log("DSM still lists the device as trusted until it is removed under Personal > Security.")
+    })
+
+  program
+    .command("clear")
+    .description("Clear all finished tasks")
+    .action(async (_options, command: Command) => {
+      const { client } = await openSession(command.optsWithGlobals<CLIOptions>())
+      await client.clearCompleted()
+      console.log("Cleared completed tasks.")
+    })
+}
+
+function describeProfile(config: StoredConfig): string {
+  const parts = [config.host ?? "(no host)"]
+  const credentials = config.credentials ?? (config.opItem ? "1password" : undefined)
+  if (credentials) parts.push(`credentials ${credentials}`)
+  if (config.allowInsecure) parts.push("insecure")
+  if (config.timeoutMs) parts.push(`timeout ${config.timeoutMs} ms`)
+  if (config.destination) parts.push(`destination ${config.destination}`)
+  if (config.sessionCache === false) parts.push("no session cache")
+  return parts.join(" · ")
+}
+
+function formatConfigValue(value: unknown): string {
+  return value === undefined ? "-" : String(value)
+}
+
+function describeSource(value: ResolvedValue<unknown>): string {
+  switch (value.source) {
+    case "flag":
+      return "flag"
+    case "env":
+      return `env ${value.origin}`
+    case "profile":
+      return `profile "${value.origin}"`
+    case "config":
+      return "config.json"
+    case "default":
+      return "default"
+  }
+}
+
+function runProfileChange<T>(change: () => T): T {
+  try {
+    return change()
+  } catch (error) {
+    throw new CLIError(error instanceof Error ? error.message : String(error), ExitCode.Usage)
+  }
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T
+}
+
+function findSettingOption(key: string): SettingDefinition {
+  try {
+    return findSetting(key)
+  } catch (error) {
+    throw new CLIError(error instanceof Error ? error.message : String(error), ExitCode.Usage)
+  }
+}
+
+function readSettingsFile(file: string): SettingsPatch {
+  let data: unknown
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf8"))
+  } catch (error) {
+    throw new CLIError(`Unable to read ${file}: ${error instanceof Error ? error.message : String(error)}`, ExitCode.Failure)
+  }
+  try {
+    return parseSettingsExport(data)
+  } catch (error) {
+    throw new CLIError(error instanceof Error ? error.message : String(error), ExitCode.Failure)
+  }
+}
+
+function resolveConfiguredHost(config: ResolvedConfig): string {
+  const host = config.host.value
+  if (!host) {
+    throw new CLIError("No host configured; pass --host or set SYNOLOGY_URL.", ExitCode.Usage)
+  }
+  return normalizeHost(host)
+}
+
+function parseId(label: string, value: string): number {
+  const id = Number(value)
+  if (!Number.isInteger(id) || id < 0) {
+    throw new CLIError(`Invalid ${label} "${value}"; expected a number.`, ExitCode.Usage)
+  }
+  return id
+}
+
+function parseRateOption(flag: string, value: string): number {
+  try {
+    return parseRate(value)
+  } catch (error) {
+    throw new CLIError(`${flag}: ${error instanceof Error ? error.message : String(error)}`, ExitCode.Usage)
+  }
+}
+
+/** Opens a session for commands built on SYNO.DownloadStation2, which DSM 6 does not have. */
+async function openDownloadStation2Session(command: Command, name: string): Promise<SessionContext> {
+  const session = await openSession(command.optsWithGlobals<CLIOptions>())
+  if (session.client.usesLegacyTaskApi) {
+    throw new CLIError(`synology-ds ${name} requires Download Station on DSM 7.`, ExitCode.Failure)
+  }
+  return session
+}
+
+function resolveDestination(session: SessionContext, override?: string): string | undefined {
+  if (override === undefined) {
+    return currentDestination(session)
+  }
+  const destination = normalizeDestination(override)
+  if (!destination) {
+    throw new CLIError("--destination must not be empty.", ExitCode.Usage)
+  }
+  return destination
+}
+
+/** Remembers an explicit --destination for the host, once a task was actually created there. */
+function rememberDestination(session: SessionContext, override: string | undefined, destination: string | undefined) {
+  if (override !== undefined && destination) {
+    session.selectDestination(destination)
+  }
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
+function compileSelector(patterns: string[]): FileMatcher {
+  try {
+    return compileFileSelector(patterns)
+  } catch (error) {
+    throw new CLIError(error instanceof Error ? error.message : String(error), ExitCode.Usage)
+  }
+}
+
+/**
+ * Prepares each input and queues its matching files, reporting failures per input like pause/resume/delete
+ * instead of stopping at the first. Returns how many inputs failed.
+ */
+async function downloadSelectedEach(
+  inputs: string[],
+  prepare: (input: string) => Promise<string[]>,
+  client: SynologyClient,
+  matcher: FileMatcher,
+  destination: string | undefined,
+): Promise<number> {
+  let failed = 0
+  for (const input of inputs) {
+    try {
+      await downloadSelected(client, await prepare(input), matcher, destination)
+    } catch (error) {
+      failed += 1
+      console.error(`${input}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  return failed
+}
+
+/** Lists where nothing matched, and any left over when a request fails, are discarded so none linger on the NAS. */
+async function downloadSelected(
+  client: SynologyClient,
+  listIds: string[],
+  matcher: FileMatcher,
+  destination: string | undefined,
+) {
+  const unmatched: string[] = []
+  for (const [position, listId] of listIds.entries()) {
+    try {
+      const list = await client.getTaskList(listId)
+      const selected = list.files.filter((file) => matcher(file.name))
+      const label = list.title ?? listId
+      if (selected.length === 0) {
+        await client.discardTaskList(listId)
+        unmatched.push(`"${label}"`)
+        continue
+      }
+      await client.downloadTaskList(
+        listId,
+        selected.map((file) => file.index),
+        destination,
+      )
+      const total = selected.reduce((sum, file) => sum + file.size, 0)
+      console.log(`Selected ${selected.length}/${list.files.length} files (${formatBytes(total)}) from "${label}".`)
+    } catch (error) {
+      await Promise.allSettled(listIds.slice(position).map((id) => client.discardTaskList(id)))
+      throw error
+    }
+  }
+  if (unmatched.length > 0) {
+    throw new Error(`No files in ${unmatched.join(", ")} matched --select; nothing from ${unmatched.length > 1 ? "them" : "it"} was queued.`)
+  }
+}
+
+async function reportTaskOperation(
+  ids: string[],
+  run: (ids: string[]) => Promise<FailedTask[]>,
+  verb: string,
+) {
+  const failed = await run(ids)
+  const failedIds = new Set(failed.map((failure) => failure.id))
+  for (const id of ids) {
+    if (!failedIds.has(id)) {
+      console.log(`${verb} ${id}`)
+    }
+  }
+  for (const failure of failed) {
+    console.error(`${failure.id}: ${describeTaskError(failure.error)} (${failure.error})`)
+  }
+  if (failed.length > 0) {
+    throw new CLIError(`${failed.length} of ${ids.length} task(s) failed.`, ExitCode.Failure)
+  }
+}
@@ -0,0 +1,135 @@
+import { loadConfigFile, type ConfigFile, type StoredConfig } from "../services/configStore"
+import type { CredentialProviderName } from "../services/credentialProvider"
+import { parseCredentialProviderName } from "../services/credentialProviders"
+import { parseSwitch } from "../utils/parse"
+import { CLIError, ExitCode } from "./exitCodes"
+import type { CLIOptions } from "./session"
+
+export type ConfigSource = "flag" | "env" | "profile" | "config" | "default"
+
+export interface ResolvedValue<T> {
+  value: T
+  source: ConfigSource
+  // Env var or profile name the value came from.
+  origin?: string
+}
+
+export type ResolvedKey = keyof StoredConfig
+
+export type ResolvedConfig = {
+  profile: ResolvedValue<string>
+} & {
+  [K in ResolvedKey]: ResolvedValue<StoredConfig[K]>
+}
+
+interface KeyDefinition {
+  env: string
+  flag: (options: CLIOptions) => unknown
+  parse: (raw: string, name: string) => unknown
+  fallback?: unknown
+}
+
+export const DEFAULT_TIMEOUT_MS = 10000
+
+const DEFINITIONS: Record<ResolvedKey, KeyDefinition> = {
+  host: { env: "SYNOLOGY_URL", flag: (options) => options.host, parse: (raw) => raw },
+  allowInsecure: { env: "SYNOLOGY_INSECURE", flag: (options) => options.insecure, parse: parseBoolean },
+  timeoutMs: {
+    env: "SYNOLOGY_TIMEOUT",
+    flag: (options) => (options.timeout === undefined ? undefined : parseTimeout(options.timeout, "--timeout")),
+    parse: parseTimeout,
+    fallback: DEFAULT_TIMEOUT_MS,
+  },
+  opItem: { env: "SYNOLOGY_OP_ITEM", flag: (options) => options.opItem, parse: (raw) => raw },
+  opVault: { env: "SYNOLOGY_OP_VAULT", flag: (options) => options.opVault, parse: (raw) => raw },
+  credentials: {
+    env: "SYNOLOGY_CREDENTIALS",
+    flag: (options) => (options.credentials === undefined ? undefined : parseCredentialOption(options.credentials)),
+    parse: parseCredentialOption,
+  },
+  credentialsItem: { env: "SYNOLOGY_CREDENTIALS_ITEM", flag: (options) => options.credentialsItem, parse: (raw) => raw },
+  // commander defaults `--no-session-cache` options to true, so only an explicit false counts as a flag.
+  sessionCache: {
+    env: "SYNOLOGY_SESSION_CACHE",
+    flag: (options) => (options.sessionCache === false ? false : undefined),
+    parse: parseBoolean,
+    fallback: true,
+  },
+  // There is no global --destination: the per-command option on add, upload and rss download is
+  // applied by the command itself, after resolution, so this key never resolves from a flag.
+  destination: { env: "SYNOLOGY_DESTINATION", flag: () => undefined, parse: (raw) => raw },
+}
+
+export const RESOLVED_KEYS = Object.keys(DEFINITIONS) as ResolvedKey[]
+
+export const PROFILE_ENV = "SYNOLOGY_PROFILE"
+
+const SOURCE_PRECEDENCE: ConfigSource[] = ["flag", "env", "profile", "config", "default"]
+
+export function outranks(a: ResolvedValue<unknown>, b: ResolvedValue<unknown>): boolean {
+  return SOURCE_PRECEDENCE.indexOf(a.source) < SOURCE_PRECEDENCE.indexOf(b.source)
+}
+
+export function envVarFor(key: ResolvedKey): string {
+  return DEFINITIONS[key].env
+}
+
+/**
+ * Resolves every setting by precedence: CLI flag > environment variable > profile > top-level
+ * `defaults` in config.json > built-in default. Each value records where it came from.
+ */
+export function resolveConfig(
+  options: CLIOptions,
+  env: NodeJS.ProcessEnv = process.env,
+  file: ConfigFile = loadConfigFile(),
+): ResolvedConfig {
+  const profile: ResolvedValue<string> = options.profile
+    ? { value: options.profile, source: "flag" }
+    : env[PROFILE_ENV]
+      ? { value: env[PROFILE_ENV]!, source: "env", origin: PROFILE_ENV }
+      : { value: file.currentProfile, source: "config" }
+  const stored = file.profiles[profile.value] ?? {}
+  const defaults = file.defaults ?? {}
+  const resolved: Record<string, ResolvedValue<unknown>> = { profile }
+  for (const key of RESOLVED_KEYS) {
+    const definition = DEFINITIONS[key]
+    const fromFlag = definition.flag(options)
+    const fromEnv = env[definition.env]
+    if (fromFlag !== undefined) {
+      resolved[key] = { value: fromFlag, source: "flag" }
+    } else if (fromEnv !== undefined && fromEnv !== "") {
+      resolved[key] = { value: definition.parse(fromEnv, definition.env), source: "env", origin: definition.env }
+    } else if (stored[key] !== undefined) {
+      resolved[key] = { value: stored[key], source: "profile", origin: profile.value }
+    } else if (defaults[key] !== undefined) {
+      resolved[key] = { value: defaults[key], source: "config" }
+    } else {
+      resolved[key] = { value: definition.fallback, source: "default" }
+    }
+  }
+  return resolved as ResolvedConfig
+}
+
+export function parseBoolean(raw: string, name: string): boolean {
+  const value = parseSwitch(raw)
+  if (value === undefined) {
+    throw new CLIError(`${name} must be true or false (or on/off), got "${raw}".`, ExitCode.Usage)
+  }
+  return value
+}
+
+export function parseTimeout(raw: string, name: string): number {
+  const value = Number(raw.trim())
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new CLIError(`${name} must be a positive number of milliseconds, got "${raw}".`, ExitCode.Usage)
+  }
+  return value
+}
+
+export function parseCredentialOption(value: string, name = "--credentials"): CredentialProviderName {
+  try {
+    return parseCredentialProviderName(value)
+  } catch (error) {
+    throw new CLIError(`${name}: ${error instanceof Error ? error.message : String(error)}`, ExitCode.Usage)
+  }
+}
@@ -0,0 +1,14 @@
+export const ExitCode = {
+  Success: 0,
+  Failure: 1,
+  Usage: 2,
+  AuthFailed: 3,
+} as const
+
+export type ExitCodeValue = (typeof ExitCode)[keyof typeof ExitCode]
+
+export class CLIError extends Error {
+  constructor(message: string, public readonly exitCode: ExitCodeValue = ExitCode.Failure) {
+    super(message)
+  }
+}
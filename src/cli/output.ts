@@ -0,0 +1,239 @@
+import type { Task } from "../types/synology"
+import { deriveProgress, describeStatus, formatBytes, formatPercent, formatSpeed } from "../utils/formatting"
+import { CLIError, ExitCode } from "./exitCodes"
+
+export const OUTPUT_FORMATS = ["table", "json", "ndjson", "csv"] as const
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+/**
+ * Shape emitted by the JSON and NDJSON formats. Every key is always present
+ * (`null` when DSM did not report it) so consumers can rely on the schema.
+ */
+export interface TaskRecord {
+  id: string
+  type: string
+  username: string
+  title: string
+  size: number
+  status: number
+  status_text: string
+  progress: number | null
+  error_detail: string | null
+  transfer: {
+    size_downloaded: number | null
+    size_uploaded: number | null
+    speed_download: number | null
+    speed_upload: number | null
+    downloaded_pieces: number | null
+  }
+  detail: {
+    destination: string | null
+    uri: string | null
+    created_time: number | null
+    started_time: number | null
+    completed_time: number | null
+  }
+}
+
+type CellValue = string | number | null
+
+interface ColumnDefinition {
+  header: string
+  value: (task: Task) => CellValue
+  display: (task: Task) => string
+}
+
+const COLUMNS: Record<string, ColumnDefinition> = {
+  id: {
+    header: "ID",
+    value: (task) => task.id,
+    display: (task) => task.id,
+  },
+  title: {
+    header: "Title",
+    value: (task) => task.title,
+    display: (task) => task.title,
+  },
+  type: {
+    header: "Type",
+    value: (task) => task.type,
+    display: (task) => task.type,
+  },
+  status: {
+    header: "Status",
+    value: (task) => describeStatus(task.status),
+    display: (task) => describeStatus(task.status),
+  },
+  progress: {
+    header: "Progress",
+    value: (task) => roundProgress(deriveProgress(task)),
+    display: (task) => formatPercent(deriveProgress(task)),
+  },
+  size: {
+    header: "Size",
+    value: (task) => task.size,
+    display: (task) => formatBytes(task.size),
+  },
+  downloaded: {
+    header: "Downloaded",
+    value: (task) => task.additional?.transfer?.size_downloaded ?? null,
+    display: (task) => formatBytes(task.additional?.transfer?.size_downloaded),
+  },
+  uploaded: {
+    header: "Uploaded",
+    value: (task) => task.additional?.transfer?.size_uploaded ?? null,
+    display: (task) => formatBytes(task.additional?.transfer?.size_uploaded),
+  },
+  download_speed: {
+    header: "Down",
+    value: (task) => task.additional?.transfer?.speed_download ?? null,
+    display: (task) => formatSpeed(task.additional?.transfer?.speed_download),
+  },
+  upload_speed: {
+    header: "Up",
+    value: (task) => task.additional?.transfer?.speed_upload ?? null,
+    display: (task) => formatSpeed(task.additional?.transfer?.speed_upload),
+  },
+  destination: {
+    header: "Destination",
+    value: (task) => task.additional?.detail?.destination ?? null,
+    display: (task) => task.additional?.detail?.destination ?? "-",
+  },
+  uri: {
+    header: "URI",
+    value: (task) => task.additional?.detail?.uri ?? null,
+    display: (task) => task.additional?.detail?.uri ?? "-",
+  },
+  created: {
+    header: "Created",
+    value: (task) => isoTimestamp(task.additional?.detail?.created_time),
+    display: (task) => isoTimestamp(task.additional?.detail?.created_time) ?? "-",
+  },
+  completed: {
+    header: "Completed",
+    value: (task) => isoTimestamp(task.additional?.detail?.completed_time),
+    display: (task) => isoTimestamp(task.additional?.detail?.completed_time) ?? "-",
+  },
+  error: {
+    header: "Error",
+    value: (task) => task.status_extra?.error_detail ?? null,
+    display: (task) => task.status_extra?.error_detail ?? "-",
+  },
+}
+
+export const AVAILABLE_COLUMNS = Object.keys(COLUMNS)
+
+export const DEFAULT_COLUMNS = ["id", "title", "status", "progress", "download_speed", "size", "destination"]
+
+export function parseOutputFormat(value: string): OutputFormat {
+  const normalized = value.trim().toLowerCase()
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(normalized)) {
+    throw new CLIError(`Unknown output format "${value}". Use one of: ${OUTPUT_FORMATS.join(", ")}.`, ExitCode.Usage)
+  }
+  return normalized as OutputFormat
+}
+
+export function parseColumns(value: string): string[] {
+  const columns = value
+    .split(",")
+    .map((column) => column.trim().toLowerCase())
+    .filter((column) => column.length > 0)
+  const unknown = columns.filter((column) => !(column in COLUMNS))
+  if (unknown.length > 0) {
+    throw new CLIError(
+      `Unknown column(s): ${unknown.join(", ")}. Available: ${AVAILABLE_COLUMNS.join(", ")}.`,
+      ExitCode.Usage,
+    )
+  }
+  if (columns.length === 0) {
+    throw new CLIError("Select at least one column.", ExitCode.Usage)
+  }
+  return columns
+}
+
+export function toTaskRecord(task: Task): TaskRecord {
+  const transfer = task.additional?.transfer
+  const detail = task.additional?.detail
+  return {
+    id: task.id,
+    type: task.type,
+    username: task.username,
+    title: task.title,
+    size: task.size,
+    status: task.status,
+    status_text: describeStatus(task.status),
+    progress: roundProgress(deriveProgress(task)),
+    error_detail: task.status_extra?.error_detail ?? null,
+    transfer: {
+      size_downloaded: transfer?.size_downloaded ?? null,
+      size_uploaded: transfer?.size_uploaded ?? null,
+      speed_download: transfer?.speed_download ?? null,
+      speed_upload: transfer?.speed_upload ?? null,
+      downloaded_pieces: transfer?.downloaded_pieces ?? null,
+    },
+    detail: {
+      destination: detail?.destination ?? null,
+      uri: detail?.uri ?? null,
+      created_time: detail?.created_time ?? null,
+      started_time: detail?.started_time ?? null,
+      completed_time: detail?.completed_time ?? null,
+    },
+  }
+}
+
+export function formatTasks(tasks: Task[], format: OutputFormat, columns: string[] = DEFAULT_COLUMNS): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(tasks.map(toTaskRecord), null, 2)
+    case "ndjson":
+      return tasks.map((task) => JSON.stringify(toTaskRecord(task))).join("\n")
+    case "csv":
+      return formatCsv(tasks, columns)
+    case "table":
+      return formatTable(tasks, columns)
+  }
+}
+
+function formatCsv(tasks: Task[], columns: string[]): string {
+  const definitions = columns.map((column) => COLUMNS[column])
+  const lines = [columns.map(escapeCsv).join(",")]
+  for (const task of tasks) {
+    lines.push(definitions.map((definition) => escapeCsv(definition.value(task))).join(","))
+  }
+  return lines.join("\n")
+}
+
+function formatTable(tasks: Task[], columns: string[]): string {
+  const definitions = columns.map((column) => COLUMNS[column])
+  const rows = [
+    definitions.map((definition) => definition.header),
+    ...tasks.map((task) => definitions.map((definition) => definition.display(task))),
+  ]
+  const widths = definitions.map((_, index) => Math.max(...rows.map((row) => row[index].length)))
+  return rows
+    .map((row) =>
+      row
+        .map((cell, index) => (index === row.length - 1 ? cell : cell.padEnd(widths[index])))
+        .join("  "),
+    )
+    .join("\n")
+}
+
+function escapeCsv(value: CellValue): string {
+  if (value === null) return ""
+  const text = String(value)
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+function roundProgress(progress?: number): number | null {
+  return progress === undefined ? null : Math.round(progress * 10) / 10
+}
+
+function isoTimestamp(seconds?: number): string | null {
+  if (!seconds || seconds <= 0) return null
+  return new Date(seconds * 1000).toISOString()
+}
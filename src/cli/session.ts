@@ -0,0 +1,551 @@
+import crypto from "node:crypto"
+import os from "node:os"
+import { SynologyClient, SynologyRequestError } from "../services/SynologyClient"
+import { loadConfigFile, saveConfig, useProfile, type StoredConfig } from "../services/configStore"
+import { loadDeviceToken, removeDeviceTokens, saveDeviceToken } from "../services/deviceTokenStore"
+import {
+  loadSession,
+  rekeySessions,
+  sessionEncryption,
+  unlockSessions,
+  updateSession,
+  type SessionEncryption,
+  type SessionState,
+} from "../services/sessionStore"
+import { createKeyringSecret } from "../services/secretService"
+import type { CredentialProvider, CredentialProviderName, Credentials } from "../services/credentialProvider"
+import { createCredentialProvider } from "../services/credentialProviders"
+import { prompt, promptHidden } from "../services/prompt"
+import type { Task } from "../types/synology"
+import { addRecentDestination } from "../utils/destination"
+import { DEFAULT_TIMEOUT_MS, envVarFor, outranks, resolveConfig, type ResolvedConfig } from "./config"
+import { CLIError, ExitCode } from "./exitCodes"
+
+// Unknown API, unknown method, unsupported version.
+const API_MISMATCH_CODES = [102, 103, 104]
+
+// DSM asks for a one-time code; with a device token this means the device is no longer trusted.
+const OTP_REQUIRED_CODE = 403
+
+// "No such account or incorrect password".
+const WRONG_CREDENTIALS_CODE = 400
+
+const PASSPHRASE_ENV = "SYNOLOGY_DS_PASSPHRASE"
+
+const SESSION_PASSPHRASE_ENV = "SYNOLOGY_DS_SESSION_PASSPHRASE"
+
+// Keyring item holding the random key of an encrypted session cache.
+const SESSION_KEY_PURPOSE = "session-key"
+
+let sessionUnlock: Promise<boolean> | undefined
+
+// Shown in DSM's list of trusted devices.
+const DEVICE_NAME = `synology-ds (${os.hostname()})`
+
+// Sessions not confirmed for this long are checked against the NAS before they are relied on again.
+export const SESSION_STALE_MS = 15 * 60 * 1000
+
+// Activity stamps within this window are not written again, so polling does not rewrite sessions.json.
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000
+
+export interface CLIOptions {
+  profile?: string
+  host?: string
+  insecure?: boolean
+  opItem?: string
+  opVault?: string
+  credentials?: string
+  credentialsItem?: string
+  timeout?: string
+  sessionCache?: boolean
+  nonInteractive?: boolean
+}
+
+export interface SessionContext {
+  client: SynologyClient
+  host: string
+  profile: string
+  config: ResolvedConfig
+  username: string
+  initialTasks: Task[]
+  // The configured destination, for hosts that have no destination picked yet.
+  defaultDestination?: string
+  cachedSession?: SessionState
+  sessionCacheEnabled: boolean
+  mergeSession: (partial: SessionState) => void
+  selectDestination: (destination: string) => void
+  refreshSession: () => Promise<void>
+  unlockCredentials: () => Promise<void>
+  markSessionActive: () => void
+  revalidateIfStale: () => Promise<void>
+  logout: () => Promise<void>
+}
+
+export async function openSession(options: CLIOptions): Promise<SessionContext> {
+  const file = loadConfigFile()
+  const config = resolveConfig(options, process.env, file)
+  const profile = config.profile.value
+  if (config.profile.source !== "config" && !file.profiles[profile]) {
+    throw new CLIError(
+      `Unknown profile "${profile}". Create it with \`synology-ds init --profile ${profile}\` or \`synology-ds profile add ${profile} --host <url>\`.`,
+      ExitCode.Usage,
+    )
+  }
+  const interactive = isInteractive(options)
+  const answers = interactive ? await askSetup(config) : {}
+
+  const configuredHost = answers.host ?? config.host.value
+  const allowInsecure = answers.allowInsecure ?? config.allowInsecure.value ?? false
+  const opItem = answers.opItem ?? config.opItem.value
+  const opVault = answers.opVault ?? config.opVault.value
+  const useSessionCache = config.sessionCache.value ?? true
+  if (useSessionCache) {
+    await unlockSessionCache(interactive)
+  }
+  const timeoutMs = config.timeoutMs.value ?? DEFAULT_TIMEOUT_MS
+  const credentialsItem = config.credentialsItem.value
+
+  // An --op-item flag (or env var) picks 1Password even when the profile names another provider.
+  const providerName: CredentialProviderName =
+    answers.credentials ??
+    (config.credentials.value && !outranks(config.opItem, config.credentials)
+      ? config.credentials.value
+      : opItem
+        ? "1password"
+        : "prompt")
+
+  if (!interactive) {
+    const hasSession = configuredHost && useSessionCache ? Boolean(loadSession(normalizeHost(configuredHost))?.sid) : false
+    const missing = missingSettings(configuredHost, hasSession ? undefined : providerName)
+    if (missing.length > 0) {
+      throw new CLIError(`Cannot run non-interactively; missing ${missing.join(", ")}.`, ExitCode.Usage)
+    }
+  } else {
+    // Flags and first-run answers are remembered in the profile; env vars and shared defaults are not copied into it.
+    const remembered = { ...rememberedFlags(config), ...answers }
+    if (Object.values(remembered).some((value) => value !== undefined)) {
+      saveConfig(remembered, profile)
+    }
+  }
+  const host = normalizeHost(configuredHost ?? "")
+
+  let credentialProvider: CredentialProvider | undefined
+  try {
+    credentialProvider = createCredentialProvider(providerName, {
+      host,
+      opItem,
+      opVault,
+      item: credentialsItem,
+      askPassphrase: (isNew) => askPassphrase(isNew, interactive),
+    })
+  } catch (error) {
+    throw new CLIError(error instanceof Error ? error.message : String(error), ExitCode.Usage)
+  }
+
+  let cachedSession = useSessionCache ? loadSession(host) : undefined
+  const client = new SynologyClient({ host, allowInsecure, timeoutMs, apiInfo: cachedSession?.apiInfo })
+  if (cachedSession?.sid) {
+    client.sessionId = cachedSession.sid
+  }
+
+  const mergeSession = (partial: SessionState) => {
+    cachedSession = { ...(cachedSession ?? {}), ...partial }
+    if (useSessionCache) {
+      updateSession(host, cachedSession)
+    }
+  }
+
+  const markSessionActive = (force = false) => {
+    const last = cachedSession?.updatedAt ? Date.parse(cachedSession.updatedAt) : 0
+    if (force || Date.now() - last >= SESSION_TOUCH_INTERVAL_MS) {
+      mergeSession({ updatedAt: new Date().toISOString() })
+    }
+  }
+
+  const selectDestination = (destination: string) => {
+    mergeSession({
+      destination,
+      recentDestinations: addRecentDestination(cachedSession?.recentDestinations, destination),
+    })
+  }
+
+  let displayUsername: string | undefined = cachedSession?.username
+
+  // A trusted device token lets DSM skip the one-time code, so the OTP is only read when DSM asks for it.
+  async function signIn(username: string, password: string, readOtp: () => Promise<string | undefined>) {
+    const trusted = useSessionCache ? loadDeviceToken(host, username) : undefined
+    if (trusted) {
+      try {
+        await client.login(username, password, undefined, { id: trusted.deviceId, name: trusted.deviceName })
+        saveDeviceToken(host, username, { ...trusted, lastUsedAt: new Date().toISOString() })
+        return
+      } catch (error) {
+        if (!(error instanceof SynologyRequestError && error.code === OTP_REQUIRED_CODE)) {
+          throw error
+        }
+        removeDeviceTokens(host, username)
+      }
+    }
+    const otp = await readOtp()
+    const deviceId = await client.login(username, password, otp, useSessionCache ? { name: DEVICE_NAME } : undefined)
+    if (otp && deviceId && useSessionCache) {
+      saveDeviceToken(host, username, { deviceId, deviceName: DEVICE_NAME, createdAt: new Date().toISOString() })
+    }
+  }
+
+  async function authenticateInteractive() {
+    const stored = credentialProvider ? await credentialProvider.load() : undefined
+    const credentials = stored ?? (await promptCredentials())
+    displayUsername = credentials.username
+    try {
+      await signIn(credentials.username, credentials.password, readOtp)
+    } catch (error) {
+      if (!interactive && error instanceof SynologyRequestError && error.code === OTP_REQUIRED_CODE) {
+        throw new Error(
+          "DSM asked for a one-time code, which cannot be typed in non-interactive mode. Use a credential provider that supplies codes (e.g. SYNOLOGY_OTP_COMMAND with --credentials env), or sign in once from a terminal so this device is trusted.",
+        )
+      }
+      if (stored && credentialProvider?.clear && error instanceof SynologyRequestError && error.code === WRONG_CREDENTIALS_CODE) {
+        await credentialProvider.clear()
+        throw new Error(`DSM rejected the credentials from ${credentialProvider.label}; they were removed, so the next sign-in asks again.`)
+      }
+      throw error
+    }
+    if (!stored) {
+      await credentialProvider?.save?.(credentials)
+    }
+    if (client.sessionId) {
+      mergeSession({ sid: client.sessionId, username: credentials.username, updatedAt: new Date().toISOString() })
+    }
+  }
+
+  async function promptCredentials(): Promise<Credentials> {
+    if (!interactive) {
+      throw new Error(`Cannot sign in non-interactively; missing ${missingSettings(host, providerName).join(", ")}.`)
+    }
+    const username = await prompt("Username: ", { defaultValue: displayUsername })
+    const password = await promptHidden("Password: ")
+    return { username, password }
+  }
+
+  async function readOtp(): Promise<string | undefined> {
+    if (credentialProvider?.otp) {
+      return credentialProvider.otp()
+    }
+    if (!interactive) {
+      return undefined
+    }
+    const otpInput = await prompt("One-time code (press Enter to skip): ", { allowEmpty: true })
+    return otpInput?.trim() ? otpInput.trim() : undefined
+  }
+
+  async function discoverApis() {
+    mergeSession({ apiInfo: await client.discover() })
+  }
+
+  async function ensureSessionValid(rediscovered = false): Promise<Task[]> {
+    if (!client.apiInfo) {
+      await discoverApis()
+    }
+    if (client.sessionId) {
+      try {
+        const tasks = await client.listTasks()
+        markSessionActive()
+        return tasks
+      } catch (error) {
+        if (!rediscovered && error instanceof SynologyRequestError && API_MISMATCH_CODES.includes(error.code ?? 0)) {
+          // The cached API list may predate a DSM or Download Station upgrade; look again once.
+          await discoverApis()
+          return ensureSessionValid(true)
+        }
+        if (error instanceof SynologyRequestError && error.code === 119) {
+          client.sessionId = undefined
+          // Drop only the SID so the destination and recent destinations survive re-authentication.
+          mergeSession({ sid: undefined })
+        } else {
+          throw error
+        }
+      }
+    }
+    try {
+      await authenticateInteractive()
+    } catch (error) {
+      throw new CLIError(error instanceof Error ? error.message : String(error), ExitCode.AuthFailed)
+    }
+    return client.listTasks()
+  }
+
+  const initialTasks = await ensureSessionValid()
+
+  async function revalidateIfStale() {
+    if (!isSessionStale(cachedSession)) {
+      return
+    }
+    try {
+      await client.listTasks()
+      markSessionActive(true)
+    } catch (error) {
+      if (!(error instanceof SynologyRequestError && error.code === 119)) {
+        throw error
+      }
+      client.sessionId = undefined
+      mergeSession({ sid: undefined })
+      await authenticateInteractive()
+    }
+  }
+
+  async function logout() {
+    try {
+      await client.logout()
+    } finally {
+      mergeSession({ sid: undefined })
+    }
+  }
+
+  return {
+    client,
+    host,
+    profile,
+    config,
+    defaultDestination: config.destination.value,
+    username: displayUsername ?? "unknown",
+    initialTasks,
+    get cachedSession() {
+      return cachedSession
+    },
+    sessionCacheEnabled: useSessionCache,
+    mergeSession,
+    selectDestination,
+    refreshSession: authenticateInteractive,
+    unlockCredentials: async () => {
+      await credentialProvider?.unlock?.()
+    },
+    markSessionActive: () => markSessionActive(),
+    revalidateIfStale,
+    logout,
+  }
+}
+
+/** SYNOLOGY_DESTINATION wins over the destination last picked for the host, which wins over the profile's. */
+export function currentDestination(session: SessionContext): string | undefined {
+  if (session.config.destination.source === "env") {
+    return session.config.destination.value
+  }
+  return session.cachedSession?.destination ?? session.defaultDestination
+}
+
+/**
+ * Unlocks an encrypted sessions.json with the keyring key or a passphrase, once per process. When the key is
+ * unavailable the run carries on without cached sessions, and the encrypted file is left untouched.
+ */
+export function unlockSessionCache(interactive: boolean): Promise<boolean> {
+  sessionUnlock ??= openSessionCache(interactive).then(
+    () => true,
+    (error) => {
+      console.error(
+        `Cached sessions are encrypted and could not be unlocked (${(error instanceof Error ? error.message : String(error)).replace(/\.$/, "")}); continuing without them.`,
+      )
+      return false
+    },
+  )
+  return sessionUnlock
+}
+
+/** Like `unlockSessionCache`, but throws when the key is unavailable. */
+export async function openSessionCache(interactive: boolean) {
+  const encryption = sessionEncryption()
+  if (!encryption) {
+    return
+  }
+  if (encryption === "keyring") {
+    const secret = createKeyringSecret(SESSION_KEY_PURPOSE).read()
+    if (!secret) {
+      throw new Error("the keyring has no session key")
+    }
+    unlockSessions(secret)
+    return
+  }
+  const fromEnv = process.env[SESSION_PASSPHRASE_ENV]
+  if (fromEnv) {
+    unlockSessions(fromEnv)
+    return
+  }
+  if (!interactive) {
+    throw new Error(`set ${SESSION_PASSPHRASE_ENV} to unlock them non-interactively`)
+  }
+  unlockSessions(await promptHidden("Session cache passphrase: "))
+}
+
+/**
+ * Re-encrypts the (already unlocked) session cache under a fresh passphrase or a random key kept in the
+ * keyring, or stores it in plaintext when `target` is undefined.
+ */
+export async function rekeySessionCache(target: SessionEncryption | undefined, interactive: boolean) {
+  const previous = sessionEncryption()
+  const keyring = createKeyringSecret(SESSION_KEY_PURPOSE)
+  if (target === "keyring") {
+    const secret = crypto.randomBytes(32).toString("base64")
+    const previousSecret = previous === "keyring" ? keyring.read() : undefined
+    keyring.write(secret)
+    try {
+      rekeySessions({ encryption: target, secret })
+    } catch (error) {
+      // sessions.json still needs the old key.
+      if (previousSecret) {
+        keyring.write(previousSecret)
+      } else {
+        keyring.clear()
+      }
+      throw error
+    }
+  } else if (target === "passphrase") {
+    if (!interactive) {
+      throw new CLIError("Choosing a session passphrase needs a terminal; use --keyring instead.", ExitCode.Usage)
+    }
+    const passphrase = await promptHidden("New session cache passphrase: ")
+    if (!passphrase || passphrase !== (await promptHidden("Repeat the passphrase: "))) {
+      throw new CLIError("The passphrases were empty or did not match; nothing was changed.", ExitCode.Usage)
+    }
+    rekeySessions({ encryption: target, secret: passphrase })
+  } else {
+    rekeySessions()
+  }
+  if (previous === "keyring" && target !== "keyring") {
+    keyring.clear()
+  }
+}
+
+/** Prompts are allowed unless --non-interactive is passed or stdin is not a terminal (CI, cron, pipes). */
+export function isInteractive(options: CLIOptions): boolean {
+  return !options.nonInteractive && process.stdin.isTTY === true
+}
+
+/**
+ * The onboarding questions: host, self-signed certificates and 1Password. Only what `config` leaves
+ * unset is asked, unless `all` is set (`init`), which asks everything with the current values as defaults.
+ */
+export async function askSetup(config: ResolvedConfig, all = false): Promise<StoredConfig> {
+  const answers: StoredConfig = {}
+  let host = config.host.value
+  if (all || !host) {
+    host = normalizeHost(await prompt("Synology URL: ", { defaultValue: host }))
+    answers.host = host
+  }
+  if ((all || config.allowInsecure.source === "default") && normalizeHost(host).startsWith("https://")) {
+    const current = config.allowInsecure.value ?? false
+    const answer = await prompt(`Allow self-signed certificates? (${current ? "Y/n" : "y/N"}): `, { allowEmpty: true })
+    answers.allowInsecure = answer ? /^y(es)?$/i.test(answer) : current
+  }
+  const otherProvider = config.credentials.value !== undefined && !["1password", "prompt"].includes(config.credentials.value)
+  const askOnePassword = all
+    ? !otherProvider
+    : config.opItem.source === "default" && config.credentials.source === "default"
+  if (askOnePassword) {
+    const current = config.opItem.value !== undefined
+    const choice = await prompt(`Use 1Password CLI for credentials? (${current ? "Y/n" : "y/N"}): `, { allowEmpty: true })
+    if (choice ? /^y(es)?$/i.test(choice) : current) {
+      answers.opItem = await prompt("1Password item name or ID: ", { defaultValue: config.opItem.value })
+      const vault = await prompt("1Password vault (press Enter for default): ", {
+        allowEmpty: true,
+        defaultValue: config.opVault.value,
+      })
+      answers.opVault = vault || undefined
+      answers.credentials = "1password"
+    } else {
+      // Remembering the "no" keeps the next run from asking again.
+      answers.opItem = undefined
+      answers.opVault = undefined
+      answers.credentials = "prompt"
+    }
+  }
+  return answers
+}
+
+/** The `init` wizard: asks every onboarding question and saves the answers (and any flags) to the profile. */
+export async function initProfile(options: CLIOptions): Promise<string> {
+  const file = loadConfigFile()
+  const config = resolveConfig(options, process.env, file)
+  const profile = config.profile.value
+  const answers = await askSetup(config, true)
+  saveConfig({ ...rememberedFlags(config), ...answers }, profile)
+  if (Object.keys(file.profiles).length === 0) {
+    useProfile(profile)
+  }
+  return profile
+}
+
+export function isSessionStale(session: SessionState | undefined, now = Date.now()): boolean {
+  const confirmed = session?.updatedAt ? Date.parse(session.updatedAt) : Number.NaN
+  return Number.isNaN(confirmed) || now - confirmed > SESSION_STALE_MS
+}
+
+export type LogoutResult = "logged-out" | "expired" | "no-session"
+
+/** Logs out the SID cached for `host` without prompting, and forgets it locally either way. */
+export async function logoutCachedSession(
+  host: string,
+  options: { allowInsecure?: boolean; timeoutMs?: number },
+): Promise<LogoutResult> {
+  const session = loadSession(host)
+  if (!session?.sid) {
+    return "no-session"
+  }
+  const client = new SynologyClient({ host, ...options, apiInfo: session.apiInfo })
+  client.sessionId = session.sid
+  try {
+    await client.logout()
+    return "logged-out"
+  } catch (error) {
+    if (error instanceof SynologyRequestError && (error.code === 105 || error.code === 119)) {
+      return "expired"
+    }
+    throw error
+  } finally {
+    updateSession(host, { sid: undefined })
+  }
+}
+
+async function askPassphrase(isNew: boolean, interactive: boolean): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_ENV]
+  if (fromEnv) {
+    return fromEnv
+  }
+  if (!interactive) {
+    throw new Error(`Set ${PASSPHRASE_ENV} to unlock the credentials file non-interactively.`)
+  }
+  return promptHidden(isNew ? "New passphrase for the credentials file: " : "Credentials file passphrase: ")
+}
+
+// Settings passed as flags are remembered in the profile, as they were before profiles existed.
+function rememberedFlags(config: ResolvedConfig): StoredConfig {
+  const remembered: StoredConfig = {}
+  for (const key of ["host", "allowInsecure", "opItem", "opVault", "credentials", "credentialsItem", "sessionCache"] as const) {
+    if (config[key].source === "flag") {
+      Object.assign(remembered, { [key]: key === "host" ? normalizeHost(config.host.value!) : config[key].value })
+    }
+  }
+  return remembered
+}
+
+function missingSettings(host: string | undefined, provider: CredentialProviderName | undefined): string[] {
+  const missing: string[] = []
+  if (!host) {
+    missing.push(`the host (--host or ${envVarFor("host")})`)
+  }
+  if (provider === "prompt") {
+    missing.push(
+      `credentials (--credentials <provider>, --op-item, or --credentials env with SYNOLOGY_USERNAME and SYNOLOGY_PASSWORD)`,
+    )
+  } else if (provider === "file" && !process.env[PASSPHRASE_ENV]) {
+    missing.push(`${PASSPHRASE_ENV} for the encrypted credentials file`)
+  }
+  return missing
+}
+
+export function normalizeHost(host: string): string {
+  const trimmed = host.trim()
+  if (trimmed.startsWith("http://") || trimmed.startsWith("https://")) {
+    return trimmed.replace(/\/+$/, "")
+  }
+  return `https://${trimmed.replace(/\/+$/, "")}`
+}
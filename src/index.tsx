@@ -2,28 +2,15 @@
 /** @jsxImportSource @opentui/react */
 import { createCliRenderer } from "@opentui/core"
 import { createRoot } from "@opentui/react"
-import { Command } from "commander"
+import { Command, CommanderError } from "commander"
 import stripAnsi from "strip-ansi"
-import { App } from "./tui/App"
-import { SynologyClient, SynologyRequestError } from "./services/SynologyClient"
-import { loadConfig, saveConfig } from "./services/configStore"
-import { deleteSession, loadSession, updateSession, type SessionState } from "./services/sessionStore"
-import { fetchOnePasswordCredentials, fetchOnePasswordTotp } from "./services/onePassword"
-import { prompt, promptHidden } from "./services/prompt"
-
-interface CLIOptions {
-  host?: string
-  insecure?: boolean
-  opItem?: string
-  opVault?: string
-  timeout?: string
-  noSessionCache?: boolean
-}
-
-interface Credentials {
-  username: string
-  password: string
-}
+import { App, type NasConnection } from "./tui/App"
+import { registerCommands } from "./cli/commands"
+import { CLIError, ExitCode } from "./cli/exitCodes"
+import { envVarFor } from "./cli/config"
+import { currentDestination, isInteractive, openSession, type CLIOptions, type SessionContext } from "./cli/session"
+import { listProfiles } from "./services/configStore"
+import { CREDENTIAL_PROVIDER_NAMES } from "./services/credentialProviders"
 
 function ensureBunPolyfills() {
   const bunGlobal = globalThis as typeof globalThis & {
@@ -35,166 +22,107 @@ function ensureBunPolyfills() {
   }
 }
 
-async function main() {
-  ensureBunPolyfills()
-  const program = new Command()
-    .name("synology-ds")
-    .description("Synology Download Station TUI powered by Bun + OpenTUI")
-    .option("--host <url>", "Synology URL, e.g. https://nas.local:5001")
-    .option("--insecure", "Allow self-signed TLS certificates")
-    .option("--op-item <item>", "1Password item name or ID to load credentials from")
-    .option("--op-vault <vault>", "1Password vault name or ID")
-    .option("--timeout <ms>", "HTTP timeout in milliseconds (default 10000)")
-    .option("--no-session-cache", "Disable session caching to disk")
-
-  const options = program.parse(process.argv).opts<CLIOptions>()
-  const storedConfig = loadConfig()
-
-  let host = options.host ?? storedConfig.host ?? ""
-  if (!host) {
-    host = await prompt("Synology URL: ")
-  }
-  host = normalizeHost(host)
+interface TUIOptions extends CLIOptions {
+  profiles?: string
+}
 
-  let allowInsecure = options.insecure ?? storedConfig.allowInsecure ?? false
-  if (!options.insecure && storedConfig.allowInsecure === undefined && host.startsWith("https://")) {
-    const answer = await prompt("Allow self-signed certificates? (y/N): ", { allowEmpty: true })
-    allowInsecure = /^y(es)?$/i.test(answer)
+async function launchTUI(options: TUIOptions) {
+  if (!isInteractive(options)) {
+    throw new CLIError("The TUI needs an interactive terminal; use a subcommand such as `list` in scripts.", ExitCode.Usage)
   }
-
-  let opItem = options.opItem ?? storedConfig.opItem
-  let opVault = options.opVault ?? storedConfig.opVault
-  const useSessionCache = !options.noSessionCache && (storedConfig.sessionCache ?? true)
-  const timeoutMs = Number.parseInt(options.timeout ?? "10000", 10)
-
-  if (!options.opItem && !storedConfig.opItem) {
-    const choice = await prompt("Use 1Password CLI for credentials? (y/N): ", { allowEmpty: true })
-    if (/^y(es)?$/i.test(choice)) {
-      opItem = await prompt("1Password item name or ID: ")
-      const vaultAnswer = await prompt("1Password vault (press Enter for default): ", { allowEmpty: true })
-      opVault = vaultAnswer.trim() !== "" ? vaultAnswer.trim() : undefined
+  const profiles = options.profiles ? resolveProfiles(options) : [options.profile]
+  const connections: NasConnection[] = []
+  for (const profile of profiles) {
+    try {
+      const session = await openSession({ ...options, profile })
+      // Any passphrase prompt has to happen now; once the renderer starts, re-auth cannot read the terminal.
+      await session.unlockCredentials()
+      connections.push(toConnection(session))
+    } catch (error) {
+      if (profiles.length === 1) {
+        throw error
+      }
+      console.error(`${profile}: ${error instanceof Error ? error.message : String(error)} (skipped)`)
     }
   }
-
-  saveConfig({
-    host,
-    allowInsecure,
-    opItem,
-    opVault,
-    sessionCache: useSessionCache,
-  })
-
-  const client = new SynologyClient({ host, allowInsecure, timeoutMs })
-  let cachedSession = useSessionCache ? loadSession(host) : undefined
-  if (cachedSession?.sid) {
-    client.sessionId = cachedSession.sid
-  }
-
-  const mergeSession = (partial: SessionState) => {
-    cachedSession = { ...(cachedSession ?? {}), ...partial }
-    if (useSessionCache) {
-      updateSession(host, cachedSession)
-    }
+  if (connections.length === 0) {
+    throw new CLIError("None of the profiles could be opened.", ExitCode.AuthFailed)
   }
 
-  let credentialCache: Credentials | undefined
-  let displayUsername: string | undefined = cachedSession?.username
-  const usesOnePassword = Boolean(opItem)
-  let initialTasks: Awaited<ReturnType<SynologyClient["listTasks"]>> | undefined
-
-  async function authenticateWithOnePassword() {
-    if (!opItem) {
-      throw new Error("1Password item not provided.")
-    }
-    const creds = fetchOnePasswordCredentials(opItem, opVault)
-    credentialCache = { username: creds.username, password: creds.password }
-    displayUsername = creds.username
-    const otp = fetchOnePasswordTotp(opItem, opVault) ?? creds.totp
-    await client.login(creds.username, creds.password, otp)
-    if (client.sessionId) {
-      mergeSession({ sid: client.sessionId, username: creds.username })
-    }
-  }
+  const renderer = await createCliRenderer({ exitOnCtrlC: false })
+  createRoot(renderer).render(<App connections={connections} />)
+}
 
-  async function authenticateManually() {
-    const username = await prompt("Username: ", { defaultValue: displayUsername })
-    const password = await promptHidden("Password: ")
-    credentialCache = { username, password }
-    displayUsername = username
-    const otpInput = await prompt("One-time code (press Enter to skip): ", { allowEmpty: true })
-    const otp = otpInput?.trim() ? otpInput.trim() : undefined
-    await client.login(username, password, otp)
-    if (client.sessionId) {
-      mergeSession({ sid: client.sessionId, username })
-    }
+function resolveProfiles(options: TUIOptions): string[] {
+  if (options.host || options.profile || process.env[envVarFor("host")]) {
+    throw new CLIError(`--profiles cannot be combined with --host, --profile or ${envVarFor("host")}.`, ExitCode.Usage)
   }
-
-  async function authenticateInteractive() {
-    if (usesOnePassword) {
-      await authenticateWithOnePassword()
-    } else {
-      await authenticateManually()
-    }
+  const known = listProfiles().map(([name]) => name)
+  const names =
+    options.profiles?.trim() === "all"
+      ? known
+      : [...new Set((options.profiles ?? "").split(",").map((name) => name.trim()).filter(Boolean))]
+  const unknown = names.filter((name) => !known.includes(name))
+  if (unknown.length > 0) {
+    throw new CLIError(`Unknown profile(s): ${unknown.join(", ")}.`, ExitCode.Usage)
   }
-
-  async function ensureSessionValid() {
-    if (client.sessionId) {
-      try {
-        initialTasks = await client.listTasks()
-        return
-      } catch (error) {
-        if (error instanceof SynologyRequestError && error.code === 119) {
-          client.sessionId = undefined
-          if (useSessionCache) {
-            deleteSession(host)
-          }
-          cachedSession = undefined
-        } else {
-          throw error
-        }
-      }
-    }
-    await authenticateInteractive()
-    initialTasks = await client.listTasks()
-  }
-
-  await ensureSessionValid()
-
-  const refreshSession = async () => {
-    if (usesOnePassword) {
-      await authenticateWithOnePassword()
-    } else {
-      await authenticateManually()
-    }
+  if (names.length === 0) {
+    throw new CLIError("No profiles to open; add some with `synology-ds profile add`.", ExitCode.Usage)
   }
+  return names
+}
 
-  const handleDestinationChange = (destination: string) => {
-    mergeSession({ destination })
+function toConnection(session: SessionContext): NasConnection {
+  return {
+    name: session.profile,
+    client: session.client,
+    host: session.host,
+    username: session.username,
+    refreshSession: session.refreshSession,
+    initialTasks: session.initialTasks,
+    initialDestination: currentDestination(session),
+    initialRecentDestinations: session.cachedSession?.recentDestinations,
+    onDestinationChange: (destination) => session.mergeSession({ destination }),
+    onDestinationSelected: session.selectDestination,
+    onSessionActive: session.markSessionActive,
+    revalidateSession: session.revalidateIfStale,
+    onExit: session.sessionCacheEnabled ? undefined : session.logout,
   }
-
-  const renderer = await createCliRenderer({ exitOnCtrlC: false })
-  createRoot(renderer).render(
-    <App
-      client={client}
-      host={host}
-      username={displayUsername ?? credentialCache?.username ?? "unknown"}
-      refreshSession={refreshSession}
-      initialTasks={initialTasks}
-      initialDestination={cachedSession?.destination}
-      onDestinationChange={handleDestinationChange}
-    />,
-  )
 }
 
-function normalizeHost(host: string): string {
-  const trimmed = host.trim()
-  if (trimmed.startsWith("http://") || trimmed.startsWith("https://")) {
-    return trimmed.replace(/\/+$/, "")
-  }
-  return `https://${trimmed.replace(/\/+$/, "")}`
+async function main() {
+  ensureBunPolyfills()
+  const program = new Command()
+    .name("synology-ds")
+    .description("Synology Download Station TUI powered by Bun + OpenTUI")
+    .option("--profile <name>", "Named NAS profile to use (defaults to the current profile)")
+    .option("--profiles <names>", "Open several profiles in one TUI dashboard (comma-separated, or all)")
+    .option("--host <url>", "Synology URL, e.g. https://nas.local:5001")
+    .option("--insecure", "Allow self-signed TLS certificates")
+    .option("--op-item <item>", "1Password item name or ID to load credentials from")
+    .option("--op-vault <vault>", "1Password vault name or ID")
+    .option(
+      "--credentials <provider>",
+      `Where credentials come from: ${CREDENTIAL_PROVIDER_NAMES.join(", ")} (remembered in config.json)`,
+    )
+    .option("--credentials-item <name>", "Bitwarden item or pass/gopass entry holding the DSM login")
+    .option("--timeout <ms>", "HTTP timeout in milliseconds (default 10000)")
+    .option("--no-session-cache", "Disable session caching to disk")
+    .option("--non-interactive", "Never prompt; fail with the list of missing settings (default when stdin is not a terminal)")
+    .exitOverride()
+    .action(async () => {
+      await launchTUI(program.opts<TUIOptions>())
+    })
+
+  registerCommands(program)
+  await program.parseAsync(process.argv)
 }
 
 main().catch((error) => {
+  if (error instanceof CommanderError) {
+    // commander has already printed help or the usage error.
+    process.exit(error.exitCode === 0 ? ExitCode.Success : ExitCode.Usage)
+  }
   console.error(error instanceof Error ? error.message : error)
-  process.exit(1)
+  process.exit(error instanceof CLIError ? error.exitCode : ExitCode.Failure)
 })
@@ -1,5 +1,41 @@
+import { readFile } from "node:fs/promises"
+import path from "node:path"
 import { URL } from "node:url"
-import type { AuthData, SynologyResponse, Task, TasksResponse, TaskOperation } from "../types/synology"
+import { defaultUriValidator, type UriValidationResult, type UriValidator } from "./uriValidator"
+import { LEGACY_TASK_API, fromLegacyTask, toFailedTasks } from "./legacyDownloadStation"
+import type {
+  ApiInfo,
+  AuthData,
+  BtSearchListResponse,
+  BtSearchStartResponse,
+  BtSettings,
+  DownloadStationSettings,
+  FailedTask,
+  FileStationCreateFolderResponse,
+  FileStationEntry,
+  FileStationListResponse,
+  FileStationListShareResponse,
+  LegacyTaskInfoResponse,
+  LegacyTaskListResponse,
+  LegacyTaskOperationResponse,
+  RssFeed,
+  RssFeedListResponse,
+  RssFilter,
+  RssFilterInput,
+  RssFilterListResponse,
+  RssItemListResponse,
+  SettingsPatch,
+  SettingsSection,
+  SpeedLimits,
+  SynologyResponse,
+  Task,
+  TaskCreateResponse,
+  TaskFileList,
+  TaskInfoResponse,
+  TasksResponse,
+  TaskOperation,
+  TaskSpeedLimit,
+} from "../types/synology"
 
 export class SynologyRequestError extends Error {
   constructor(message: string, public readonly code?: number) {
@@ -7,10 +43,42 @@ export class SynologyRequestError extends Error {
   }
 }
 
+const TASK_FILE_EXTENSIONS = [".torrent", ".nzb"]
+
+const SETTINGS_APIS: Record<SettingsSection, string> = {
+  global: "SYNO.DownloadStation2.Settings.Global",
+  location: "SYNO.DownloadStation2.Settings.Location",
+  bt: "SYNO.DownloadStation2.Settings.BT",
+  ftpHttp: "SYNO.DownloadStation2.Settings.FtpHttp",
+  nzb: "SYNO.DownloadStation2.Settings.Nzb",
+  scheduler: "SYNO.DownloadStation2.Settings.Scheduler",
+  autoExtraction: "SYNO.DownloadStation2.Settings.AutoExtraction",
+}
+
+export const SETTINGS_SECTIONS = Object.keys(SETTINGS_APIS) as SettingsSection[]
+
+// Every API the client calls; discovery asks SYNO.API.Info about exactly these.
+const KNOWN_APIS = [
+  "SYNO.API.Auth",
+  "SYNO.DownloadStation2.Task",
+  "SYNO.DownloadStation2.Task.List",
+  "SYNO.DownloadStation2.Task.BT",
+  "SYNO.DownloadStation2.RSS.Site",
+  "SYNO.DownloadStation2.RSS.Item",
+  "SYNO.DownloadStation2.RSS.Filter",
+  "SYNO.DownloadStation2.BTSearch",
+  ...Object.values(SETTINGS_APIS),
+  LEGACY_TASK_API,
+  "SYNO.FileStation.List",
+  "SYNO.FileStation.CreateFolder",
+]
+
 export interface SynologyClientOptions {
   host: string
   allowInsecure?: boolean
   timeoutMs?: number
+  uriValidator?: UriValidator
+  apiInfo?: ApiInfo
 }
 
 export class SynologyClient {
@@ -20,9 +88,15 @@ export class SynologyClient {
 
   private readonly timeout: number
 
+  private readonly uriValidator: UriValidator
+
+  private info?: ApiInfo
+
   constructor(private readonly options: SynologyClientOptions) {
     this.host = options.host.replace(/\/+$/, "")
     this.timeout = Math.max(options.timeoutMs ?? 10_000, 1)
+    this.uriValidator = options.uriValidator ?? defaultUriValidator
+    this.info = options.apiInfo
     if (options.allowInsecure) {
       process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0"
     }
@@ -36,7 +110,43 @@ export class SynologyClient {
     this.sid = value
   }
 
-  async login(username: string, password: string, otp?: string) {
+  get apiInfo(): ApiInfo | undefined {
+    return this.info
+  }
+
+  /** True on DSM 6, where only the legacy SYNO.DownloadStation.Task API exists. */
+  get usesLegacyTaskApi(): boolean {
+    return Boolean(this.info && !this.info["SYNO.DownloadStation2.Task"] && this.info[LEGACY_TASK_API])
+  }
+
+  /**
+   * Asks SYNO.API.Info which APIs, CGI paths and versions this NAS supports.
+   * Until discovery runs the client assumes DSM 7 defaults.
+   */
+  async discover(): Promise<ApiInfo> {
+    const response = await this.post<ApiInfo>(
+      {
+        api: "SYNO.API.Info",
+        version: "1",
+        method: "query",
+        query: KNOWN_APIS.join(","),
+      },
+      false,
+    )
+    this.info = this.parseData(response, "Failed to query supported APIs.")
+    return this.info
+  }
+
+  /**
+   * Signs in and returns the device token DSM issued, if any. Passing `device.id` skips the OTP on
+   * a trusted device; passing `device.name` alongside an OTP asks DSM to trust this device.
+   */
+  async login(
+    username: string,
+    password: string,
+    otp?: string,
+    device?: { id?: string; name?: string },
+  ): Promise<string | undefined> {
     const params: Record<string, string> = {
       api: "SYNO.API.Auth",
       version: "7",
@@ -47,6 +157,15 @@ export class SynologyClient {
     }
     if (otp) {
       params.otp_code = otp
+      if (device?.name) {
+        params.enable_device_token = "yes"
+      }
+    }
+    if (device?.name) {
+      params.device_name = device.name
+    }
+    if (device?.id) {
+      params.device_id = device.id
     }
 
     const response = await this.post<AuthData>(params, false)
@@ -55,9 +174,31 @@ export class SynologyClient {
       throw new SynologyRequestError("Authentication failed", code)
     }
     this.sid = response.data.sid
+    return response.data.did ?? response.data.device_id
+  }
+
+  /** Ends the DSM session behind the current SID; the SID is dropped even if DSM rejects the call. */
+  async logout() {
+    if (!this.sid) {
+      return
+    }
+    try {
+      await this.requireSuccess(this.post({ api: "SYNO.API.Auth", version: "7", method: "logout" }), "Failed to log out.")
+    } finally {
+      this.sid = undefined
+    }
   }
 
   async listTasks(): Promise<Task[]> {
+    if (this.usesLegacyTaskApi) {
+      const response = await this.post<LegacyTaskListResponse>({
+        api: LEGACY_TASK_API,
+        version: "1",
+        method: "list",
+        additional: "detail,transfer",
+      })
+      return this.parseData(response, "Failed to list tasks.").tasks.map(fromLegacyTask)
+    }
     const response = await this.post<TasksResponse>({
       api: "SYNO.DownloadStation2.Task",
       version: "2",
@@ -67,7 +208,39 @@ export class SynologyClient {
     return this.parseData(response, "Failed to list tasks.").task
   }
 
+  async getTask(id: string): Promise<Task> {
+    if (this.usesLegacyTaskApi) {
+      const response = await this.post<LegacyTaskInfoResponse>({
+        api: LEGACY_TASK_API,
+        version: "1",
+        method: "getinfo",
+        id,
+        additional: "detail,transfer,file,tracker,peer",
+      })
+      const task = this.parseData(response, "Failed to load task.").tasks[0]
+      if (!task) {
+        throw new SynologyRequestError("Task not found.")
+      }
+      return fromLegacyTask(task)
+    }
+    const response = await this.post<TaskInfoResponse>({
+      api: "SYNO.DownloadStation2.Task",
+      version: "2",
+      method: "get",
+      id,
+      additional: '["detail","transfer","file","tracker","peer"]',
+    })
+    const task = this.parseData(response, "Failed to load task.").task[0]
+    if (!task) {
+      throw new SynologyRequestError("Task not found.")
+    }
+    return task
+  }
+
   async pauseTask(id: string) {
+    if (this.usesLegacyTaskApi) {
+      return this.runSingleTaskOperation(this.pauseTasks([id]), "Failed to pause task.")
+    }
     await this.requireSuccess(
       this.post<TaskOperation>({
         api: "SYNO.DownloadStation2.Task",
@@ -80,6 +253,9 @@ export class SynologyClient {
   }
 
   async resumeTask(id: string) {
+    if (this.usesLegacyTaskApi) {
+      return this.runSingleTaskOperation(this.resumeTasks([id]), "Failed to resume task.")
+    }
     await this.requireSuccess(
       this.post<TaskOperation>({
         api: "SYNO.DownloadStation2.Task",
@@ -92,6 +268,9 @@ export class SynologyClient {
   }
 
   async deleteTask(id: string, force = false) {
+    if (this.usesLegacyTaskApi) {
+      return this.runSingleTaskOperation(this.deleteTasks([id], force), "Failed to delete task.")
+    }
     await this.requireSuccess(
       this.post<TaskOperation>({
         api: "SYNO.DownloadStation2.Task",
@@ -104,7 +283,31 @@ export class SynologyClient {
     )
   }
 
+  /** Pauses several tasks in one request and returns the entries DSM could not pause. */
+  async pauseTasks(ids: string[]): Promise<FailedTask[]> {
+    return this.runTaskOperation("pause", ids, "Failed to pause tasks.")
+  }
+
+  async resumeTasks(ids: string[]): Promise<FailedTask[]> {
+    return this.runTaskOperation("resume", ids, "Failed to resume tasks.")
+  }
+
+  async deleteTasks(ids: string[], force = false): Promise<FailedTask[]> {
+    return this.runTaskOperation("delete", ids, "Failed to delete tasks.", {
+      force_complete: force ? "true" : "false",
+    })
+  }
+
   async clearCompleted() {
+    if (this.usesLegacyTaskApi) {
+      // DSM 6 has no delete_condition; delete the finished tasks by ID instead.
+      const finished = (await this.listTasks()).filter((task) => task.status === 5).map((task) => task.id)
+      const failed = await this.deleteTasks(finished)
+      if (failed.length > 0) {
+        throw new SynologyRequestError("Failed to clear tasks.", failed[0].error)
+      }
+      return
+    }
     await this.requireSuccess(
       this.post<TaskOperation>({
         api: "SYNO.DownloadStation2.Task",
@@ -123,41 +326,462 @@ export class SynologyClient {
     if (normalized.length === 0) {
       throw new Error("Provide at least one URL.")
     }
+    const invalid = this.validateUrls(normalized).filter((result) => !result.valid)
+    if (invalid.length > 0) {
+      throw new Error(invalid.map((result) => `${result.input}: ${result.valid ? "" : result.error}`).join("\n"))
+    }
     for (const url of normalized) {
       await this.createTaskFromUrl(url, destination)
     }
   }
 
+  validateUrls(urls: string[]): UriValidationResult[] {
+    return urls.map((url) => this.uriValidator.validate(url))
+  }
+
   async createTaskFromUrl(url: string, destination?: string) {
-    if (!url.startsWith("http://") && !url.startsWith("https://")) {
-      throw new Error("URL must start with http:// or https://.")
+    if (this.usesLegacyTaskApi) {
+      const params: Record<string, string> = {
+        api: LEGACY_TASK_API,
+        version: "1",
+        method: "create",
+        uri: this.uriValidator.normalize(url),
+      }
+      if (destination) {
+        params.destination = destination
+      }
+      await this.requireSuccess(this.post(params), "Failed to create task.")
+      return
+    }
+    await this.requireSuccess(this.post(this.urlTaskParams(url, destination, false)), "Failed to create task.")
+  }
+
+  /**
+   * Creates a pending file list instead of a task so the caller can pick which
+   * files to download via `getTaskList` and `downloadTaskList`.
+   */
+  async prepareTaskFromUrl(url: string, destination?: string): Promise<string[]> {
+    this.requireTaskListSupport()
+    const response = await this.post<TaskCreateResponse>(this.urlTaskParams(url, destination, true))
+    return this.parseData(response, "Failed to create task.").list_id ?? []
+  }
+
+  async createTasksFromFiles(filePaths: string[], destination?: string) {
+    const normalized = filePaths
+      .map((candidate) => candidate.trim())
+      .filter((candidate) => candidate.length > 0)
+    if (normalized.length === 0) {
+      throw new Error("Provide at least one file.")
+    }
+    for (const filePath of normalized) {
+      await this.createTaskFromFile(filePath, destination)
+    }
+  }
+
+  async createTaskFromFile(filePath: string, destination?: string) {
+    const payload = await this.fileTaskPayload(filePath, destination, false)
+    await this.requireSuccess(this.send(payload), "Failed to create task.")
+  }
+
+  async prepareTaskFromFile(filePath: string, destination?: string): Promise<string[]> {
+    this.requireTaskListSupport()
+    const response = await this.send<TaskCreateResponse>(await this.fileTaskPayload(filePath, destination, true))
+    return this.parseData(response, "Failed to create task.").list_id ?? []
+  }
+
+  async getTaskList(listId: string): Promise<TaskFileList> {
+    const response = await this.post<TaskFileList>({
+      api: "SYNO.DownloadStation2.Task.List",
+      version: "2",
+      method: "get",
+      list_id: listId,
+    })
+    return this.parseData(response, "Failed to load file list.")
+  }
+
+  async downloadTaskList(listId: string, selected: number[], destination?: string) {
+    if (selected.length === 0) {
+      throw new Error("Select at least one file.")
     }
+    const params: Record<string, string> = {
+      api: "SYNO.DownloadStation2.Task.List",
+      version: "2",
+      method: "download",
+      list_id: listId,
+      selected: JSON.stringify(selected),
+      create_subfolder: "true",
+    }
+    if (destination) {
+      params.destination = JSON.stringify(destination)
+    }
+    await this.requireSuccess(this.post(params), "Failed to start download.")
+  }
+
+  async discardTaskList(listId: string) {
+    await this.requireSuccess(
+      this.post({
+        api: "SYNO.DownloadStation2.Task.List",
+        version: "2",
+        method: "delete",
+        list_id: listId,
+      }),
+      "Failed to discard file list.",
+    )
+  }
+
+  async getSettings<K extends SettingsSection>(section: K): Promise<DownloadStationSettings[K]> {
+    const response = await this.post<DownloadStationSettings[K]>({ api: SETTINGS_APIS[section], version: "1", method: "get" })
+    return this.parseData(response, `Failed to load ${section} settings.`)
+  }
+
+  async setSettings<K extends SettingsSection>(section: K, settings: Partial<DownloadStationSettings[K]>) {
+    await this.requireSuccess(
+      this.post({ api: SETTINGS_APIS[section], version: "1", method: "set", ...encodeParams(settings) }),
+      `Failed to save ${section} settings.`,
+    )
+  }
+
+  async getAllSettings(): Promise<DownloadStationSettings> {
+    const entries = await Promise.all(
+      SETTINGS_SECTIONS.map(async (section) => [section, await this.getSettings(section)] as const),
+    )
+    return Object.fromEntries(entries) as unknown as DownloadStationSettings
+  }
+
+  /** Saves each section in `patch` with its own request; sections left out are untouched. */
+  async applySettings(patch: SettingsPatch) {
+    for (const section of SETTINGS_SECTIONS) {
+      const values = patch[section]
+      if (values && Object.keys(values).length > 0) {
+        await this.setSettings(section, values)
+      }
+    }
+  }
+
+  async getSpeedLimits(): Promise<SpeedLimits> {
+    const [bt, ftpHttp, nzb, scheduler] = await Promise.all([
+      this.getSettings("bt"),
+      this.getSettings("ftpHttp"),
+      this.getSettings("nzb"),
+      this.getSettings("scheduler"),
+    ])
+    return {
+      btDownload: bt.max_download_rate,
+      btUpload: bt.max_upload_rate,
+      ftpHttpDownload: ftpHttp.max_download_rate,
+      nzbDownload: nzb.max_download_rate,
+      scheduler,
+    }
+  }
+
+  /** Applies one download/upload cap (KB/s, 0 = unlimited) to every protocol. */
+  async setGlobalSpeedLimit(limit: { download?: number; upload?: number }) {
+    const bt: Partial<BtSettings> = {}
+    if (limit.download !== undefined) {
+      bt.max_download_rate = limit.download
+      await this.setSettings("ftpHttp", { max_download_rate: limit.download })
+      await this.setSettings("nzb", { max_download_rate: limit.download })
+    }
+    if (limit.upload !== undefined) {
+      bt.max_upload_rate = limit.upload
+    }
+    if (Object.keys(bt).length > 0) {
+      await this.setSettings("bt", bt)
+    }
+  }
+
+  async setTaskSpeedLimit(ids: string[], limit: TaskSpeedLimit) {
+    const params: Record<string, string> = {
+      api: "SYNO.DownloadStation2.Task.BT",
+      version: "2",
+      method: "set",
+      id: ids.join(","),
+    }
+    for (const [key, value] of Object.entries(limit)) {
+      if (value !== undefined) {
+        params[key] = String(value)
+      }
+    }
+    await this.requireSuccess(this.post(params), "Failed to set task speed limit.")
+  }
+
+  async listSharedFolders(): Promise<FileStationEntry[]> {
+    const response = await this.post<FileStationListShareResponse>({
+      api: "SYNO.FileStation.List",
+      version: "2",
+      method: "list_share",
+      sort_by: "name",
+    })
+    return this.parseData(response, "Failed to list shared folders.").shares
+  }
+
+  async listFolders(folderPath: string): Promise<FileStationEntry[]> {
+    const response = await this.post<FileStationListResponse>({
+      api: "SYNO.FileStation.List",
+      version: "2",
+      method: "list",
+      folder_path: folderPath,
+      filetype: "dir",
+      sort_by: "name",
+    })
+    return this.parseData(response, "Failed to list folder.").files
+  }
+
+  async createFolder(parentPath: string, name: string): Promise<FileStationEntry> {
+    const response = await this.post<FileStationCreateFolderResponse>({
+      api: "SYNO.FileStation.CreateFolder",
+      version: "2",
+      method: "create",
+      folder_path: JSON.stringify([parentPath]),
+      name: JSON.stringify([name]),
+      force_parent: "false",
+    })
+    const folder = this.parseData(response, "Failed to create folder.").folders[0]
+    if (!folder) {
+      throw new SynologyRequestError("Failed to create folder.")
+    }
+    return folder
+  }
+
+  async listRssFeeds(): Promise<RssFeed[]> {
+    const response = await this.post<RssFeedListResponse>({
+      api: "SYNO.DownloadStation2.RSS.Site",
+      version: "1",
+      method: "list",
+      offset: "0",
+      limit: "-1",
+    })
+    return this.parseData(response, "Failed to list RSS feeds.").sites
+  }
+
+  async addRssFeed(url: string) {
+    await this.requireSuccess(
+      this.post({ api: "SYNO.DownloadStation2.RSS.Site", version: "1", method: "create", url: JSON.stringify(url) }),
+      "Failed to add RSS feed.",
+    )
+  }
+
+  async removeRssFeeds(ids: number[]) {
+    await this.requireSuccess(
+      this.post({ api: "SYNO.DownloadStation2.RSS.Site", version: "1", method: "delete", id: JSON.stringify(ids) }),
+      "Failed to remove RSS feed.",
+    )
+  }
+
+  /** Asks DSM to re-fetch the given feeds, or every feed when `ids` is empty. */
+  async refreshRssFeeds(ids: number[] = []) {
+    const params: Record<string, string> = { api: "SYNO.DownloadStation2.RSS.Site", version: "1", method: "refresh" }
+    if (ids.length > 0) {
+      params.id = JSON.stringify(ids)
+    }
+    await this.requireSuccess(this.post(params), "Failed to refresh RSS feeds.")
+  }
+
+  async listRssItems(feedId: number, offset = 0, limit = 100): Promise<RssItemListResponse> {
+    const response = await this.post<RssItemListResponse>({
+      api: "SYNO.DownloadStation2.RSS.Item",
+      version: "1",
+      method: "list",
+      feed_id: String(feedId),
+      offset: String(offset),
+      limit: String(limit),
+    })
+    return this.parseData(response, "Failed to list RSS items.")
+  }
+
+  async listRssFilters(feedId: number): Promise<RssFilter[]> {
+    const response = await this.post<RssFilterListResponse>({
+      api: "SYNO.DownloadStation2.RSS.Filter",
+      version: "1",
+      method: "list",
+      feed_id: String(feedId),
+      offset: "0",
+      limit: "-1",
+    })
+    return this.parseData(response, "Failed to list RSS filters.").filters
+  }
+
+  async addRssFilter(feedId: number, filter: RssFilterInput) {
+    await this.requireSuccess(
+      this.post({
+        api: "SYNO.DownloadStation2.RSS.Filter",
+        version: "1",
+        method: "create",
+        feed_id: String(feedId),
+        ...encodeParams(filter),
+      }),
+      "Failed to add RSS filter.",
+    )
+  }
+
+  async updateRssFilter(id: number, filter: Partial<RssFilterInput>) {
+    await this.requireSuccess(
+      this.post({
+        api: "SYNO.DownloadStation2.RSS.Filter",
+        version: "1",
+        method: "set",
+        id: String(id),
+        ...encodeParams(filter),
+      }),
+      "Failed to update RSS filter.",
+    )
+  }
+
+  async removeRssFilter(id: number) {
+    await this.requireSuccess(
+      this.post({ api: "SYNO.DownloadStation2.RSS.Filter", version: "1", method: "delete", id: String(id) }),
+      "Failed to remove RSS filter.",
+    )
+  }
+
+  /** Starts a search across the BT engines enabled in Download Station and returns its ID. */
+  async startBtSearch(keyword: string): Promise<string> {
+    const response = await this.post<BtSearchStartResponse>({
+      api: "SYNO.DownloadStation2.BTSearch",
+      version: "1",
+      method: "start",
+      keyword: JSON.stringify(keyword),
+    })
+    return this.parseData(response, "Failed to start BT search.").id
+  }
+
+  async listBtSearchResults(id: string, offset = 0, limit = 500): Promise<BtSearchListResponse> {
+    const response = await this.post<BtSearchListResponse>({
+      api: "SYNO.DownloadStation2.BTSearch",
+      version: "1",
+      method: "list",
+      id: JSON.stringify(id),
+      offset: String(offset),
+      limit: String(limit),
+    })
+    return this.parseData(response, "Failed to load BT search results.")
+  }
+
+  async cleanBtSearch(id: string) {
+    await this.requireSuccess(
+      this.post({ api: "SYNO.DownloadStation2.BTSearch", version: "1", method: "clean", id: JSON.stringify(id) }),
+      "Failed to clean up BT search.",
+    )
+  }
+
+  private async runTaskOperation(
+    method: string,
+    ids: string[],
+    context: string,
+    extra: Record<string, string> = {},
+  ): Promise<FailedTask[]> {
+    if (ids.length === 0) {
+      return []
+    }
+    if (this.usesLegacyTaskApi) {
+      const response = await this.post<LegacyTaskOperationResponse>({
+        api: LEGACY_TASK_API,
+        version: "1",
+        method,
+        id: ids.join(","),
+        ...extra,
+      })
+      return toFailedTasks(this.parseData(response, context))
+    }
+    const response = await this.post<TaskOperation>({
+      api: "SYNO.DownloadStation2.Task",
+      version: "2",
+      method,
+      id: ids.join(","),
+      ...extra,
+    })
+    if (!response.success) {
+      const code = response.error?.code ?? -1
+      if (code === 119) {
+        this.sid = undefined
+      }
+      throw new SynologyRequestError(context, code)
+    }
+    return response.data?.failed_task ?? []
+  }
+
+  private async runSingleTaskOperation(operation: Promise<FailedTask[]>, context: string) {
+    const [failure] = await operation
+    if (failure) {
+      throw new SynologyRequestError(context, failure.error)
+    }
+  }
+
+  private requireTaskListSupport() {
+    if (this.usesLegacyTaskApi) {
+      throw new SynologyRequestError("Choosing files before download requires Download Station on DSM 7.")
+    }
+  }
+
+  private urlTaskParams(url: string, destination: string | undefined, createList: boolean): Record<string, string> {
     const params: Record<string, string> = {
       api: "SYNO.DownloadStation2.Task",
       version: "2",
       method: "create",
       type: '"url"',
-      url,
-      create_list: "false",
+      url: this.uriValidator.normalize(url),
+      create_list: createList ? "true" : "false",
+    }
+    if (destination) {
+      params.destination = JSON.stringify(destination)
+    }
+    return params
+  }
+
+  private async fileTaskPayload(filePath: string, destination: string | undefined, createList: boolean) {
+    const fileName = path.basename(filePath)
+    if (!TASK_FILE_EXTENSIONS.includes(path.extname(fileName).toLowerCase())) {
+      throw new Error("File must be a .torrent or .nzb file.")
+    }
+    const contents = await readFile(filePath)
+    const payload = new FormData()
+    if (this.usesLegacyTaskApi) {
+      payload.append("api", LEGACY_TASK_API)
+      payload.append("version", "2")
+      payload.append("method", "create")
+      if (destination) {
+        payload.append("destination", destination)
+      }
+      payload.append("file", new Blob([contents]), fileName)
+      return payload
     }
+    payload.append("api", "SYNO.DownloadStation2.Task")
+    payload.append("version", "2")
+    payload.append("method", "create")
+    payload.append("type", '"file"')
+    payload.append("file", '["torrent"]')
+    payload.append("create_list", createList ? "true" : "false")
     if (destination) {
-      params.destination = destination
+      payload.append("destination", JSON.stringify(destination))
     }
-    await this.requireSuccess(this.post(params), "Failed to create task.")
+    // The `file` parameter names the multipart field that carries the upload.
+    payload.append("torrent", new Blob([contents]), fileName)
+    return payload
   }
 
   private async post<T>(params: Record<string, string>, includeSid = true): Promise<SynologyResponse<T>> {
-    const payload = new URLSearchParams(params)
+    return this.send<T>(new URLSearchParams(params), includeSid)
+  }
+
+  private async send<T>(payload: URLSearchParams | FormData, includeSid = true): Promise<SynologyResponse<T>> {
+    const api = String(payload.get("api") ?? "")
+    const endpoint = new URL(this.endpointFor(api))
+    this.negotiateVersion(api, payload)
     if (includeSid) {
       if (!this.sid) {
         throw new Error("Not authorized. Call login() first.")
       }
-      payload.append("_sid", this.sid)
+      // Multipart uploads must end with the file part, so the SID travels in the query string instead.
+      if (payload instanceof FormData) {
+        endpoint.searchParams.set("_sid", this.sid)
+      } else {
+        payload.append("_sid", this.sid)
+      }
     }
     const controller = new AbortController()
     const timeout = setTimeout(() => controller.abort(), this.timeout)
     try {
-      const response = await fetch(this.endpoint, {
+      const response = await fetch(endpoint.toString(), {
         method: "POST",
         body: payload,
         signal: controller.signal,
@@ -181,8 +805,35 @@ export class SynologyClient {
     }
   }
 
-  private get endpoint() {
-    return new URL("/webapi/entry.cgi", this.host).toString()
+  private endpointFor(api: string) {
+    if (api === "SYNO.API.Info") {
+      // query.cgi is the one path every DSM version serves discovery from.
+      return new URL("/webapi/query.cgi", this.host).toString()
+    }
+    return new URL(`/webapi/${this.info?.[api]?.path ?? "entry.cgi"}`, this.host).toString()
+  }
+
+  /**
+   * Picks the highest version both sides speak: the requested version is the newest this client knows, so it is
+   * lowered to the NAS's maxVersion, and APIs the NAS lacks or only serves in newer versions are rejected.
+   */
+  private negotiateVersion(api: string, payload: URLSearchParams | FormData) {
+    if (!this.info || !KNOWN_APIS.includes(api)) {
+      return
+    }
+    const entry = this.info[api]
+    if (!entry) {
+      throw new SynologyRequestError(`${api} is not available on this NAS.`, 102)
+    }
+    const requested = Number(payload.get("version") ?? entry.maxVersion)
+    const version = Math.min(requested, entry.maxVersion)
+    if (version < entry.minVersion) {
+      throw new SynologyRequestError(
+        `Unsupported API version: ${api} needs version ${entry.minVersion}-${entry.maxVersion} but this client speaks up to ${requested}.`,
+        104,
+      )
+    }
+    payload.set("version", String(version))
   }
 
   private parseData<T>(response: SynologyResponse<T>, context: string): T {
@@ -207,3 +858,14 @@ export class SynologyClient {
     }
   }
 }
+
+// DS2 write APIs expect string fields JSON-quoted and everything else as plain text.
+function encodeParams(values: object): Record<string, string> {
+  const params: Record<string, string> = {}
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      params[key] = typeof value === "string" ? JSON.stringify(value) : String(value)
+    }
+  }
+  return params
+}
@@ -1,4 +1,7 @@
 import { afterEach, describe, expect, test } from "bun:test"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
 import { SynologyClient, SynologyRequestError } from "../SynologyClient"
 
 const originalFetch = globalThis.fetch
@@ -26,8 +29,8 @@ describe("SynologyClient", () => {
       allowInsecure: false,
       timeoutMs: 5000,
     })
-    await expect(client.createTaskFromUrl("ftp://invalid", undefined)).rejects.toThrow(
-      "URL must start with http:// or https://.",
+    await expect(client.createTaskFromUrl("gopher://invalid", undefined)).rejects.toThrow(
+      'Unsupported URL scheme "gopher".',
     )
   })
 
@@ -51,10 +54,32 @@ describe("SynologyClient", () => {
     expect(lastBody).toBeDefined()
     const params = new URLSearchParams(lastBody)
     expect(params.get("url")).toBe("https://example.com/file.iso")
-    expect(params.get("destination")).toBe("/volume1/downloads")
+    expect(params.get("destination")).toBe('"/volume1/downloads"')
     expect(params.get("_sid")).toBe("abc123")
   })
 
+  test("accepts magnet links", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    let lastBody: string | undefined
+    setMockFetch(async (_input, init) => {
+      const body = init?.body
+      lastBody = body instanceof URLSearchParams ? body.toString() : body?.toString()
+      return new Response(JSON.stringify({ success: true, data: { listId: [], taskId: [] } }), { status: 200 })
+    })
+
+    await client.createTaskFromUrl("MAGNET:?xt=urn:btih:c9e15763f722f23e98a29decdfae341b98d53056&dn=ubuntu")
+
+    expect(new URLSearchParams(lastBody).get("url")).toBe(
+      "magnet:?xt=urn:btih:c9e15763f722f23e98a29decdfae341b98d53056&dn=ubuntu",
+    )
+  })
+
   test("createTasksFromUrls calls create once per url", async () => {
     const client = new SynologyClient({
       host: "https://nas.local:5001",
@@ -79,6 +104,365 @@ describe("SynologyClient", () => {
     expect(secondParams.get("url")).toBe("https://two.example/file2")
   })
 
+  test("createTasksFromUrls validates every url before creating any", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "xyz789"
+
+    let calls = 0
+    setMockFetch(async () => {
+      calls += 1
+      return new Response(JSON.stringify({ success: true, data: { listId: [], taskId: [] } }), { status: 200 })
+    })
+
+    await expect(
+      client.createTasksFromUrls(["https://one.example/file1", "gopher://bad", "magnet:?dn=none"], undefined),
+    ).rejects.toThrow('gopher://bad: Unsupported URL scheme "gopher".\nmagnet:?dn=none: Magnet link is missing')
+    expect(calls).toBe(0)
+  })
+
+  test("runs the create_list flow for file selection", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    const requests: URLSearchParams[] = []
+    setMockFetch(async (_input, init) => {
+      const params = new URLSearchParams(init?.body?.toString())
+      requests.push(params)
+      const data =
+        params.get("method") === "create"
+          ? { list_id: ["list_1"], task_id: [] }
+          : params.get("method") === "get"
+            ? { title: "Movie", size: 30, files: [{ index: 0, name: "movie.mkv", size: 20 }] }
+            : {}
+      return new Response(JSON.stringify({ success: true, data }), { status: 200 })
+    })
+
+    const listIds = await client.prepareTaskFromUrl("magnet:?xt=urn:btih:abc", "downloads")
+    const list = await client.getTaskList(listIds[0])
+    await client.downloadTaskList(listIds[0], [0], "downloads")
+
+    expect(listIds).toEqual(["list_1"])
+    expect(list.files[0].name).toBe("movie.mkv")
+    expect(Object.fromEntries(requests[0])).toEqual({
+      api: "SYNO.DownloadStation2.Task",
+      version: "2",
+      method: "create",
+      type: '"url"',
+      url: "magnet:?xt=urn:btih:abc",
+      create_list: "true",
+      destination: '"downloads"',
+      _sid: "abc123",
+    })
+    expect(requests[1].get("api")).toBe("SYNO.DownloadStation2.Task.List")
+    expect(requests[1].get("list_id")).toBe("list_1")
+    expect(requests[2].get("method")).toBe("download")
+    expect(requests[2].get("selected")).toBe("[0]")
+    expect(requests[2].get("destination")).toBe('"downloads"')
+  })
+
+  test("getTask requests extended additional fields", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    let lastBody: string | undefined
+    setMockFetch(async (_input, init) => {
+      lastBody = init?.body?.toString()
+      const task = { id: "dbid_1", title: "Movie", additional: { peer: [{ address: "10.0.0.2:51413" }] } }
+      return new Response(JSON.stringify({ success: true, data: { task: [task] } }), { status: 200 })
+    })
+
+    const task = await client.getTask("dbid_1")
+
+    const params = new URLSearchParams(lastBody)
+    expect(params.get("method")).toBe("get")
+    expect(params.get("id")).toBe("dbid_1")
+    expect(JSON.parse(params.get("additional") ?? "[]")).toEqual(["detail", "transfer", "file", "tracker", "peer"])
+    expect(task.additional?.peer?.[0].address).toBe("10.0.0.2:51413")
+  })
+
+  test("batches bulk operations and returns per-task failures", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    const bodies: string[] = []
+    setMockFetch(async (_input, init) => {
+      bodies.push(init?.body?.toString() ?? "")
+      return new Response(
+        JSON.stringify({ success: true, data: { failed_task: [{ id: "dbid_2", error: 404 }] } }),
+        { status: 200 },
+      )
+    })
+
+    const failed = await client.deleteTasks(["dbid_1", "dbid_2", "dbid_3"], true)
+
+    expect(bodies).toHaveLength(1)
+    const params = new URLSearchParams(bodies[0])
+    expect(params.get("id")).toBe("dbid_1,dbid_2,dbid_3")
+    expect(params.get("force_complete")).toBe("true")
+    expect(failed).toEqual([{ id: "dbid_2", error: 404 }])
+  })
+
+  test("lists shared folders and sub-folders through FileStation", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    const requests: URLSearchParams[] = []
+    setMockFetch(async (_input, init) => {
+      const params = new URLSearchParams(init?.body?.toString())
+      requests.push(params)
+      const data =
+        params.get("method") === "list_share"
+          ? { offset: 0, total: 1, shares: [{ isdir: true, name: "downloads", path: "/downloads" }] }
+          : { offset: 0, total: 1, files: [{ isdir: true, name: "movies", path: "/downloads/movies" }] }
+      return new Response(JSON.stringify({ success: true, data }), { status: 200 })
+    })
+
+    const shares = await client.listSharedFolders()
+    const folders = await client.listFolders("/downloads")
+
+    expect(shares.map((share) => share.path)).toEqual(["/downloads"])
+    expect(folders.map((folder) => folder.path)).toEqual(["/downloads/movies"])
+    expect(requests[1].get("api")).toBe("SYNO.FileStation.List")
+    expect(requests[1].get("folder_path")).toBe("/downloads")
+    expect(requests[1].get("filetype")).toBe("dir")
+  })
+
+  test("applies a global speed limit to every protocol", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    const requests: URLSearchParams[] = []
+    setMockFetch(async (_input, init) => {
+      requests.push(new URLSearchParams(init?.body?.toString()))
+      return new Response(JSON.stringify({ success: true, data: {} }), { status: 200 })
+    })
+
+    await client.setGlobalSpeedLimit({ download: 2048, upload: 256 })
+
+    const byApi = new Map(requests.map((params) => [params.get("api"), params]))
+    expect(byApi.get("SYNO.DownloadStation2.Settings.FtpHttp")?.get("max_download_rate")).toBe("2048")
+    expect(byApi.get("SYNO.DownloadStation2.Settings.Nzb")?.get("max_download_rate")).toBe("2048")
+    const bt = byApi.get("SYNO.DownloadStation2.Settings.BT")
+    expect(bt?.get("method")).toBe("set")
+    expect(bt?.get("max_download_rate")).toBe("2048")
+    expect(bt?.get("max_upload_rate")).toBe("256")
+  })
+
+  test("applies a settings patch one section at a time", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    const requests: URLSearchParams[] = []
+    setMockFetch(async (_input, init) => {
+      requests.push(new URLSearchParams(init?.body?.toString()))
+      return new Response(JSON.stringify({ success: true, data: {} }), { status: 200 })
+    })
+
+    await client.applySettings({
+      location: { default_destination: "downloads/tv" },
+      bt: { tcp_port: 51413 },
+      autoExtraction: {},
+    })
+
+    expect(requests.map((params) => params.get("api"))).toEqual([
+      "SYNO.DownloadStation2.Settings.Location",
+      "SYNO.DownloadStation2.Settings.BT",
+    ])
+    expect(requests[0].get("default_destination")).toBe('"downloads/tv"')
+    expect(requests[1].get("tcp_port")).toBe("51413")
+  })
+
+  test("sets per-task BT limits in one request", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    const bodies: string[] = []
+    setMockFetch(async (_input, init) => {
+      bodies.push(init?.body?.toString() ?? "")
+      return new Response(JSON.stringify({ success: true, data: {} }), { status: 200 })
+    })
+
+    await client.setTaskSpeedLimit(["dbid_1", "dbid_2"], { max_upload_rate: 100 })
+
+    expect(bodies).toHaveLength(1)
+    const params = new URLSearchParams(bodies[0])
+    expect(params.get("api")).toBe("SYNO.DownloadStation2.Task.BT")
+    expect(params.get("id")).toBe("dbid_1,dbid_2")
+    expect(params.get("max_upload_rate")).toBe("100")
+    expect(params.has("max_download_rate")).toBe(false)
+  })
+
+  test("manages RSS feeds, items and filters", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    const requests: URLSearchParams[] = []
+    setMockFetch(async (_input, init) => {
+      const params = new URLSearchParams(init?.body?.toString())
+      requests.push(params)
+      const data =
+        params.get("api") === "SYNO.DownloadStation2.RSS.Item"
+          ? { offset: 0, total: 1, items: [{ id: "i1", title: "Episode 1", download_uri: "magnet:?xt=urn:btih:abc" }] }
+          : {}
+      return new Response(JSON.stringify({ success: true, data }), { status: 200 })
+    })
+
+    const items = await client.listRssItems(7, 0, 25)
+    await client.addRssFilter(7, {
+      name: "Show",
+      match: "show.*1080p",
+      not_match: "cam",
+      destination: "downloads/tv",
+      enabled: true,
+    })
+    await client.refreshRssFeeds()
+
+    expect(items.items[0].download_uri).toBe("magnet:?xt=urn:btih:abc")
+    expect(requests[0].get("feed_id")).toBe("7")
+    expect(requests[0].get("limit")).toBe("25")
+    const filter = requests[1]
+    expect(filter.get("api")).toBe("SYNO.DownloadStation2.RSS.Filter")
+    expect(filter.get("method")).toBe("create")
+    expect(filter.get("match")).toBe('"show.*1080p"')
+    expect(filter.get("destination")).toBe('"downloads/tv"')
+    expect(filter.get("enabled")).toBe("true")
+    expect(requests[2].has("id")).toBe(false)
+  })
+
+  test("starts, lists and cleans BT searches", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+
+    const requests: URLSearchParams[] = []
+    setMockFetch(async (_input, init) => {
+      const params = new URLSearchParams(init?.body?.toString())
+      requests.push(params)
+      const data =
+        params.get("method") === "start"
+          ? { id: "search-1" }
+          : params.get("method") === "list"
+            ? { is_running: true, offset: 0, total: 1, results: [{ id: "r1", title: "ubuntu", download_uri: "magnet:?xt=urn:btih:1" }] }
+            : {}
+      return new Response(JSON.stringify({ success: true, data }), { status: 200 })
+    })
+
+    const id = await client.startBtSearch("ubuntu 24.04")
+    const page = await client.listBtSearchResults(id)
+    await client.cleanBtSearch(id)
+
+    expect(id).toBe("search-1")
+    expect(page.is_running).toBe(true)
+    expect(page.results[0].title).toBe("ubuntu")
+    expect(requests.map((params) => params.get("method"))).toEqual(["start", "list", "clean"])
+    expect(requests[0].get("keyword")).toBe('"ubuntu 24.04"')
+    expect(requests[2].get("id")).toBe('"search-1"')
+  })
+
+  test("discovers DSM 6 APIs and falls back to the legacy task API", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+
+    const requests: { url: string; params: URLSearchParams }[] = []
+    setMockFetch(async (input, init) => {
+      const params = new URLSearchParams(init?.body?.toString())
+      requests.push({ url: input.toString(), params })
+      const data =
+        params.get("api") === "SYNO.API.Info"
+          ? {
+              "SYNO.API.Auth": { path: "auth.cgi", minVersion: 1, maxVersion: 6 },
+              "SYNO.DownloadStation.Task": { path: "DownloadStation/task.cgi", minVersion: 1, maxVersion: 3 },
+            }
+          : params.get("api") === "SYNO.API.Auth"
+            ? { sid: "legacy-sid" }
+            : { offset: 0, total: 1, tasks: [{ id: "dbid_1", username: "admin", type: "bt", title: "a", size: 1, status: "paused" }] }
+      return new Response(JSON.stringify({ success: true, data }), { status: 200 })
+    })
+
+    await client.discover()
+    await client.login("admin", "secret")
+    const tasks = await client.listTasks()
+
+    expect(client.usesLegacyTaskApi).toBe(true)
+    expect(requests[0].url).toBe("https://nas.local:5001/webapi/query.cgi")
+    expect(requests[1].url).toBe("https://nas.local:5001/webapi/auth.cgi")
+    expect(requests[1].params.get("version")).toBe("6")
+    expect(requests[2].url).toBe("https://nas.local:5001/webapi/DownloadStation/task.cgi")
+    expect(requests[2].params.get("api")).toBe("SYNO.DownloadStation.Task")
+    expect(tasks[0].status).toBe(3)
+    await expect(client.listRssFeeds()).rejects.toThrow("SYNO.DownloadStation2.RSS.Site is not available on this NAS.")
+  })
+
+  test("rejects APIs whose supported versions are all newer than the client's", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+
+    const requests: URLSearchParams[] = []
+    setMockFetch(async (_input, init) => {
+      const params = new URLSearchParams(init?.body?.toString())
+      requests.push(params)
+      const data =
+        params.get("api") === "SYNO.API.Info"
+          ? {
+              "SYNO.API.Auth": { path: "entry.cgi", minVersion: 1, maxVersion: 7 },
+              "SYNO.DownloadStation2.RSS.Site": { path: "entry.cgi", minVersion: 2, maxVersion: 3 },
+            }
+          : { sid: "sid" }
+      return new Response(JSON.stringify({ success: true, data }), { status: 200 })
+    })
+
+    await client.discover()
+    await client.login("admin", "secret")
+
+    await expect(client.listRssFeeds()).rejects.toThrow("Unsupported API version: SYNO.DownloadStation2.RSS.Site needs version 2-3")
+    expect(requests).toHaveLength(2)
+  })
+
   test("wraps API failures in SynologyRequestError", async () => {
     const client = new SynologyClient({
       host: "https://nas.local:5001",
@@ -96,4 +480,77 @@ describe("SynologyClient", () => {
       SynologyRequestError,
     )
   })
+
+  test("uploads torrent files as multipart create requests", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "synology-ds-"))
+    const torrentPath = path.join(dir, "ubuntu.torrent")
+    fs.writeFileSync(torrentPath, "d8:announce0:e")
+
+    let lastUrl: string | undefined
+    let lastBody: FormData | undefined
+    setMockFetch(async (input, init) => {
+      lastUrl = input.toString()
+      lastBody = init?.body instanceof FormData ? init.body : undefined
+      return new Response(JSON.stringify({ success: true, data: { list_id: [], task_id: ["dbid_1"] } }), {
+        status: 200,
+      })
+    })
+
+    try {
+      await client.createTaskFromFile(torrentPath, "downloads")
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+
+    expect(new URL(lastUrl!).searchParams.get("_sid")).toBe("abc123")
+    expect(lastBody).toBeDefined()
+    expect(lastBody!.get("type")).toBe('"file"')
+    expect(lastBody!.get("file")).toBe('["torrent"]')
+    expect(lastBody!.get("destination")).toBe('"downloads"')
+    const upload = lastBody!.get("torrent")
+    expect(upload).toBeInstanceOf(File)
+    expect((upload as File).name).toBe("ubuntu.torrent")
+    expect(await (upload as File).text()).toBe("d8:announce0:e")
+  })
+
+  test("rejects files that are not torrents or NZBs", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+    client.sessionId = "abc123"
+    await expect(client.createTaskFromFile("/tmp/notes.txt")).rejects.toThrow("File must be a .torrent or .nzb file.")
+  })
+
+  test("requests a device token with an OTP and reuses it without one", async () => {
+    const client = new SynologyClient({
+      host: "https://nas.local:5001",
+      allowInsecure: false,
+      timeoutMs: 5000,
+    })
+
+    const bodies: URLSearchParams[] = []
+    setMockFetch(async (_input, init) => {
+      bodies.push(new URLSearchParams(init?.body?.toString()))
+      return new Response(JSON.stringify({ success: true, data: { sid: "sid-1", did: "device-1" } }), { status: 200 })
+    })
+
+    expect(await client.login("admin", "secret", "123456", { name: "laptop" })).toBe("device-1")
+    expect(bodies[0].get("otp_code")).toBe("123456")
+    expect(bodies[0].get("enable_device_token")).toBe("yes")
+    expect(bodies[0].get("device_name")).toBe("laptop")
+
+    await client.login("admin", "secret", undefined, { id: "device-1", name: "laptop" })
+    expect(bodies[1].has("otp_code")).toBe(false)
+    expect(bodies[1].has("enable_device_token")).toBe(false)
+    expect(bodies[1].get("device_id")).toBe("device-1")
+    expect(client.sessionId).toBe("sid-1")
+  })
 })
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test"
+import { DEFAULT_PROFILE, parseConfigFile } from "../configStore"
+
+describe("config file", () => {
+  test("moves a flat config into the default profile", () => {
+    expect(parseConfigFile({ host: "https://nas.local:5001", opItem: "NAS", sessionCache: true })).toEqual({
+      currentProfile: DEFAULT_PROFILE,
+      profiles: { [DEFAULT_PROFILE]: { host: "https://nas.local:5001", opItem: "NAS", sessionCache: true } },
+    })
+  })
+
+  test("keeps unversioned and current profile layouts", () => {
+    const file = { currentProfile: "office", profiles: { office: { host: "https://office:5001" } } }
+    expect(parseConfigFile(file)).toEqual(file)
+    expect(parseConfigFile({ version: 1, ...file })).toEqual(file)
+    expect(parseConfigFile({ ...file, defaults: { timeoutMs: 30000 } }).defaults).toEqual({ timeoutMs: 30000 })
+    expect(parseConfigFile(undefined)).toEqual({ currentProfile: DEFAULT_PROFILE, profiles: {} })
+  })
+
+  test("reports every invalid setting instead of starting over", () => {
+    expect(() => parseConfigFile([])).toThrow("config.json must contain a JSON object.")
+    const broken = {
+      version: 1,
+      currentProfile: "home",
+      profiles: { home: { host: 5001, timeoutMs: -1, credentials: "keepass", colour: "blue" } },
+    }
+    expect(() => parseConfigFile(broken)).toThrow(
+      [
+        "Invalid config.json:",
+        "  profiles.home.host: expected a string",
+        "  profiles.home.timeoutMs: expected a positive whole number",
+        "  profiles.home.credentials: expected one of prompt, 1password, bitwarden, pass, gopass, env, secret-service, file",
+        "  profiles.home.colour: unknown field",
+      ].join("\n"),
+    )
+    expect(() => parseConfigFile({ version: 7, profiles: {} })).toThrow("is version 7, newer than this synology-ds understands (1)")
+  })
+})
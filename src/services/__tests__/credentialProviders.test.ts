@@ -0,0 +1,93 @@
+import { afterAll, describe, expect, test } from "bun:test"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { createCredentialProvider, parseCredentialProviderName, type CredentialProviderContext } from "../credentialProviders"
+
+const binDir = fs.mkdtempSync(path.join(os.tmpdir(), "synology-ds-bin-"))
+
+// Writes a shell script that prints `output` for arguments matching `pattern` and fails otherwise.
+const fakeExecutable = (name: string, cases: Record<string, string>): string => {
+  const file = path.join(binDir, name)
+  const branches = Object.entries(cases)
+    .map(([pattern, output]) => `  "${pattern}") cat <<'EOF'\n${output}\nEOF\n  ;;`)
+    .join("\n")
+  fs.writeFileSync(file, `#!/bin/sh\ncase "$*" in\n${branches}\n  *) echo "unexpected: $*" >&2; exit 1 ;;\nesac\n`, { mode: 0o755 })
+  return file
+}
+
+const context = (overrides: Partial<CredentialProviderContext>): CredentialProviderContext => ({
+  host: "https://nas.local:5001",
+  askPassphrase: async () => "unused",
+  ...overrides,
+})
+
+describe("credential providers", () => {
+  afterAll(() => {
+    fs.rmSync(binDir, { recursive: true, force: true })
+  })
+
+  test("reads 1Password items through the configured op binary", async () => {
+    const op = fakeExecutable("op", {
+      "item get NAS --format json --vault Private": JSON.stringify({
+        fields: [
+          { id: "username", value: "admin" },
+          { id: "password", value: "op-secret" },
+        ],
+      }),
+      "item get NAS --otp --vault Private": "111111",
+    })
+    const provider = createCredentialProvider("1password", context({ opItem: "NAS", opVault: "Private", binaries: { op } }))!
+    expect(await provider.load()).toEqual({ username: "admin", password: "op-secret" })
+    expect(await provider.otp!()).toBe("111111")
+  })
+
+  test("reads Bitwarden items and only asks for a TOTP when the item has one", async () => {
+    const bw = fakeExecutable("bw", {
+      "get item nas.local --nointeraction": JSON.stringify({ login: { username: "admin", password: "bw-secret", totp: "otpauth://x" } }),
+      "get totp nas.local --nointeraction": "222222",
+      "get item plain --nointeraction": JSON.stringify({ login: { username: "admin", password: "bw-secret", totp: null } }),
+    })
+    const provider = createCredentialProvider("bitwarden", context({ binaries: { bw } }))!
+    expect(await provider.load()).toEqual({ username: "admin", password: "bw-secret" })
+    expect(await provider.otp!()).toBe("222222")
+
+    const plain = createCredentialProvider("bitwarden", context({ item: "plain", binaries: { bw } }))!
+    await plain.load()
+    expect(await plain.otp!()).toBeUndefined()
+
+    const locked = createCredentialProvider("bitwarden", context({ item: "missing", binaries: { bw } }))!
+    await expect(locked.load()).rejects.toThrow("BW_SESSION")
+  })
+
+  test("parses pass entries and pass-otp codes", async () => {
+    const pass = fakeExecutable("pass", {
+      "show synology-ds/nas.local": "pass-secret\nurl: https://nas.local:5001\nUsername: admin",
+      "otp synology-ds/nas.local": "333333",
+    })
+    const provider = createCredentialProvider("pass", context({ binaries: { pass } }))!
+    expect(await provider.load()).toEqual({ username: "admin", password: "pass-secret" })
+    expect(await provider.otp!()).toBe("333333")
+
+    const gopass = fakeExecutable("gopass", { "show nas": "secret-only" })
+    const incomplete = createCredentialProvider("gopass", context({ item: "nas", binaries: { gopass } }))!
+    await expect(incomplete.load()).rejects.toThrow('needs the password on its first line and a "username:" line')
+  })
+
+  test("reads credentials from the environment and runs the OTP command", async () => {
+    const provider = createCredentialProvider(
+      "env",
+      context({ env: { SYNOLOGY_USERNAME: "admin", SYNOLOGY_PASSWORD: "env-secret", SYNOLOGY_OTP_COMMAND: "echo 444444" } }),
+    )!
+    expect(await provider.load()).toEqual({ username: "admin", password: "env-secret" })
+    expect(await provider.otp!()).toBe("444444")
+    await expect(createCredentialProvider("env", context({ env: {} }))!.load()).rejects.toThrow("SYNOLOGY_USERNAME")
+  })
+
+  test("validates provider names", () => {
+    expect(parseCredentialProviderName("Bitwarden")).toBe("bitwarden")
+    expect(createCredentialProvider("prompt", context({}))).toBeUndefined()
+    expect(() => parseCredentialProviderName("keepass")).toThrow('Unknown credential provider "keepass"')
+    expect(() => createCredentialProvider("1password", context({}))).toThrow("needs --op-item")
+  })
+})
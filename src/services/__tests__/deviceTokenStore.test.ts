@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test"
+import { parseDeviceTokenFile } from "../deviceTokenStore"
+
+describe("device token file", () => {
+  const token = { deviceId: "dev-1", deviceName: "synology-ds on laptop", createdAt: "2024-05-01T10:00:00.000Z" }
+
+  test("moves unversioned files under tokens", () => {
+    expect(parseDeviceTokenFile({ "https://nas.local:5001": { admin: token } })).toEqual({
+      "https://nas.local:5001": { admin: token },
+    })
+    expect(parseDeviceTokenFile({ version: 1, tokens: { "https://nas.local:5001": { admin: token } } })).toEqual({
+      "https://nas.local:5001": { admin: token },
+    })
+    expect(parseDeviceTokenFile(undefined)).toEqual({})
+  })
+
+  test("names the host, user and field that are invalid", () => {
+    const broken = { version: 1, tokens: { "https://nas.local:5001": { admin: { ...token, deviceId: 7 } }, "https://other": [] } }
+    expect(() => parseDeviceTokenFile(broken)).toThrow(
+      "  tokens.https://nas.local:5001.admin.deviceId: expected a string\n  tokens.https://other: expected an object",
+    )
+  })
+
+  test("refuses files from a newer release", () => {
+    expect(() => parseDeviceTokenFile({ version: 2, tokens: {} })).toThrow("is version 2, newer than this synology-ds understands (1)")
+  })
+})
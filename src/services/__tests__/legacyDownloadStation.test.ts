@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test"
+import { fromLegacyTask, toFailedTasks } from "../legacyDownloadStation"
+
+describe("legacy Download Station adapter", () => {
+  test("maps DSM 6 tasks onto the DS2 shape", () => {
+    const task = fromLegacyTask({
+      id: "dbid_1",
+      username: "admin",
+      type: "bt",
+      title: "ubuntu.iso",
+      size: 100,
+      status: "seeding",
+      additional: {
+        detail: { destination: "downloads", create_time: 1700000000, seedelapsed: 60 },
+        transfer: { size_downloaded: 100, speed_download: 0 },
+      },
+    })
+    expect(task.status).toBe(8)
+    expect(task.additional?.detail?.created_time).toBe(1700000000)
+    expect(task.additional?.detail?.seed_elapsed).toBe(60)
+    expect(task.additional?.transfer?.size_downloaded).toBe(100)
+  })
+
+  test("treats unknown statuses as errors and keeps only failed operations", () => {
+    expect(fromLegacyTask({ id: "x", username: "", type: "http", title: "", size: 0, status: "error" }).status).toBe(101)
+    expect(toFailedTasks([{ id: "a", error: 0 }, { id: "b", error: 405 }])).toEqual([{ id: "b", error: 405 }])
+  })
+})
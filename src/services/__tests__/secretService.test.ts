@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test"
+import type { CommandRunner } from "../credentialProvider"
+import { createSecretServiceProvider } from "../secretService"
+
+describe("Secret Service provider", () => {
+  test("stores, looks up and clears one item per host", async () => {
+    const items = new Map<string, string>()
+    const calls: string[][] = []
+    const run: CommandRunner = (_command, args, input) => {
+      calls.push(args)
+      const host = args[args.indexOf("host") + 1]
+      switch (args[0]) {
+        case "store":
+          items.set(host, input ?? "")
+          return { status: 0, stdout: "", stderr: "" }
+        case "lookup":
+          return items.has(host) ? { status: 0, stdout: items.get(host)!, stderr: "" } : { status: 1, stdout: "", stderr: "" }
+        default:
+          items.delete(host)
+          return { status: 0, stdout: "", stderr: "" }
+      }
+    }
+
+    const provider = createSecretServiceProvider("https://nas.local:5001", run)
+    expect(await provider.load()).toBeUndefined()
+    await provider.save!({ username: "admin", password: "secret" })
+    expect(calls[1]).toEqual(["store", "--label", "synology-ds https://nas.local:5001", "service", "synology-ds", "host", "https://nas.local:5001"])
+    expect(await provider.load()).toEqual({ username: "admin", password: "secret" })
+    await provider.clear!()
+    expect(await provider.load()).toBeUndefined()
+  })
+
+  test("reports a missing secret-tool binary", async () => {
+    const run: CommandRunner = () => ({ status: null, stdout: "", stderr: "", error: new Error("spawn secret-tool ENOENT") })
+    await expect(createSecretServiceProvider("https://nas.local", run).load()).rejects.toThrow("install libsecret-tools")
+  })
+})
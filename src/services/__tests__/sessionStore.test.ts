@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test"
+import { seal } from "../../utils/secretBox"
+import { parseSessionFile } from "../sessionStore"
+
+describe("session file", () => {
+  test("moves unversioned files under sessions", () => {
+    const session = { sid: "abc", username: "admin", recentDestinations: ["downloads"], updatedAt: "2024-05-01T10:00:00.000Z" }
+    expect(parseSessionFile({ "https://nas.local:5001": session })).toEqual({ "https://nas.local:5001": session })
+    expect(parseSessionFile({ version: 1, sessions: { "https://nas.local:5001": session } })).toEqual({
+      "https://nas.local:5001": session,
+    })
+    expect(parseSessionFile(undefined)).toEqual({})
+  })
+
+  test("names the host and field that are invalid", () => {
+    const broken = { version: 1, sessions: { "https://nas.local:5001": { sid: 42, updatedAt: "yesterday" } } }
+    expect(() => parseSessionFile(broken)).toThrow(
+      "  sessions.https://nas.local:5001.sid: expected a string\n  sessions.https://nas.local:5001.updatedAt: expected an ISO timestamp",
+    )
+  })
+
+  test("opens sealed sessions only with the right secret", () => {
+    const sessions = { "https://nas.local:5001": { sid: "abc", username: "admin" } }
+    const file = { version: 2, encryption: "passphrase", sealed: seal(sessions, "correct horse") }
+    expect(parseSessionFile(file, "sessions.json", "correct horse")).toEqual(sessions)
+    expect(parseSessionFile(file)).toBeUndefined()
+    expect(() => parseSessionFile(file, "sessions.json", "wrong")).toThrow("Wrong passphrase")
+    expect(() => parseSessionFile({ version: 2, encryption: "passphrase" })).toThrow("encryption and sealed must be set together")
+  })
+})
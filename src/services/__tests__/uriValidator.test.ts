@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test"
+import { UriValidator, defaultUriValidator } from "../uriValidator"
+
+describe("UriValidator", () => {
+  test("accepts every scheme Download Station understands", () => {
+    const inputs = [
+      "https://example.com/file.iso",
+      "ftp://mirror.example/pub/file.iso",
+      "sftp://user@host/file.iso",
+      "magnet:?xt=urn:btih:c9e15763f722f23e98a29decdfae341b98d53056",
+      "ed2k://|file|ubuntu.iso|3654957056|0123456789ABCDEF0123456789ABCDEF|/",
+      "thunder://QUFodHRwOi8vZXhhbXBsZS5jb20vZmlsZS5pc29aWg==",
+    ]
+    for (const input of inputs) {
+      expect(defaultUriValidator.validate(input).valid).toBe(true)
+    }
+  })
+
+  test("normalises scheme casing and whitespace", () => {
+    expect(defaultUriValidator.normalize("  HTTPS://Example.com/a b  ")).toBe("https://example.com/a%20b")
+    expect(defaultUriValidator.normalize("Magnet:?xt=urn:btih:abc")).toBe("magnet:?xt=urn:btih:abc")
+  })
+
+  test("reports a reason for each invalid input", () => {
+    const results = ["example.com/file", "gopher://host", "magnet:?dn=nothing", "ed2k://broken"].map((input) =>
+      defaultUriValidator.validate(input),
+    )
+    expect(results.map((result) => (result.valid ? undefined : result.error))).toEqual([
+      "Missing URL scheme (e.g. https:// or magnet:).",
+      'Unsupported URL scheme "gopher".',
+      "Magnet link is missing an xt=urn: parameter.",
+      "ed2k link must look like ed2k://|file|name|size|hash|/.",
+    ])
+  })
+
+  test("custom handlers can be registered", () => {
+    const validator = new UriValidator([]).register({
+      schemes: ["custom"],
+      normalize: (uri) => uri.toUpperCase(),
+    })
+    expect(validator.schemes).toEqual(["custom"])
+    expect(validator.normalize("custom:thing")).toBe("CUSTOM:THING")
+    expect(validator.validate("https://example.com").valid).toBe(false)
+  })
+})
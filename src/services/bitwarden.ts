@@ -0,0 +1,39 @@
+import { runCommand, runOrThrow, type CommandRunner, type CredentialProvider } from "./credentialProvider"
+
+interface BitwardenItem {
+  login?: {
+    username?: string | null
+    password?: string | null
+    totp?: string | null
+  }
+}
+
+/** Reads a login item with the Bitwarden CLI; `bw` must already be unlocked (BW_SESSION exported). */
+export function createBitwardenProvider(item: string, binary = "bw", run: CommandRunner = runCommand): CredentialProvider {
+  let hasTotp = false
+  return {
+    label: "Bitwarden",
+    async load() {
+      let output: string
+      try {
+        output = runOrThrow(run, binary, ["get", "item", item, "--nointeraction"])
+      } catch (error) {
+        throw new Error(`Bitwarden: ${error instanceof Error ? error.message : String(error)} (is the vault unlocked and BW_SESSION exported?)`)
+      }
+      const { login } = JSON.parse(output) as BitwardenItem
+      if (!login?.username || !login.password) {
+        throw new Error(`Bitwarden item "${item}" must contain a username and password.`)
+      }
+      hasTotp = Boolean(login.totp)
+      return { username: login.username, password: login.password }
+    },
+    async otp() {
+      if (!hasTotp) {
+        return undefined
+      }
+      const result = run(binary, ["get", "totp", item, "--nointeraction"])
+      const code = result.status === 0 ? result.stdout.trim() : ""
+      return code.length > 0 ? code : undefined
+    },
+  }
+}
@@ -1,20 +1,180 @@
-import { getConfigPath, readJSONFile, writeJSONFile } from "../utils/fs"
+import type { CredentialProviderName } from "./credentialProvider"
+import { CREDENTIAL_PROVIDER_NAMES } from "./credentialProviders"
+import {
+  checkFields,
+  isBoolean,
+  isObject,
+  isPositiveInteger,
+  isRecord,
+  isString,
+  oneOf,
+  throwIfInvalid,
+  upgradeFile,
+  type FieldCheck,
+  type Migration,
+} from "../utils/fileSchema"
+import { getConfigPath, readJSONFile, withFileLock, writeJSONFile } from "../utils/fs"
 
+/** Settings for one NAS profile. */
 export interface StoredConfig {
   host?: string
   allowInsecure?: boolean
   opItem?: string
   opVault?: string
+  // Defaults to "1password" when opItem is set, otherwise "prompt".
+  credentials?: CredentialProviderName
+  // Bitwarden item or pass/gopass entry used by those providers.
+  credentialsItem?: string
   sessionCache?: boolean
+  timeoutMs?: number
+  // Used until a destination is picked for the host (that choice lives in sessions.json).
+  destination?: string
 }
 
+export interface ConfigFile {
+  currentProfile: string
+  profiles: Record<string, StoredConfig>
+  // Applies to every profile that leaves a setting unset.
+  defaults?: StoredConfig
+}
+
+export const DEFAULT_PROFILE = "default"
+
 const CONFIG_FILE = getConfigPath("config.json")
 
-export function loadConfig(): StoredConfig {
-  return readJSONFile<StoredConfig>(CONFIG_FILE) ?? {}
+const STORED_CONFIG_FIELDS: Record<keyof StoredConfig, FieldCheck> = {
+  host: isString,
+  allowInsecure: isBoolean,
+  opItem: isString,
+  opVault: isString,
+  credentials: oneOf(CREDENTIAL_PROVIDER_NAMES),
+  credentialsItem: isString,
+  sessionCache: isBoolean,
+  timeoutMs: isPositiveInteger,
+  destination: isString,
+}
+
+const CONFIG_MIGRATIONS: Migration[] = [
+  // 0 -> 1: the original flat file becomes the "default" profile.
+  (data) => {
+    if ("profiles" in data) {
+      return data
+    }
+    const flat = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined && value !== null))
+    return {
+      currentProfile: DEFAULT_PROFILE,
+      profiles: Object.keys(flat).length > 0 ? { [DEFAULT_PROFILE]: flat } : {},
+    }
+  },
+]
+
+export const CONFIG_VERSION = CONFIG_MIGRATIONS.length
+
+/** Migrates `raw` to the current layout and validates it; undefined (no file yet) is an empty config. */
+export function parseConfigFile(raw: unknown, label = "config.json"): ConfigFile {
+  if (raw === undefined) {
+    return { currentProfile: DEFAULT_PROFILE, profiles: {} }
+  }
+  const data = upgradeFile(raw, CONFIG_MIGRATIONS, label)
+  const errors: string[] = []
+  checkFields(data, { currentProfile: isString, profiles: isObject, defaults: isObject }, "", errors)
+  if (isRecord(data.profiles)) {
+    for (const [name, profile] of Object.entries(data.profiles)) {
+      checkFields(profile, STORED_CONFIG_FIELDS, `profiles.${name}`, errors)
+    }
+  }
+  if (data.defaults !== undefined) {
+    checkFields(data.defaults, STORED_CONFIG_FIELDS, "defaults", errors)
+  }
+  throwIfInvalid(label, errors)
+  const file: ConfigFile = {
+    currentProfile: (data.currentProfile as string | undefined) ?? DEFAULT_PROFILE,
+    profiles: (data.profiles as Record<string, StoredConfig> | undefined) ?? {},
+  }
+  if (data.defaults) {
+    file.defaults = data.defaults as StoredConfig
+  }
+  return file
+}
+
+/** Reads config.json; older layouts are upgraded in memory and only written back when a command saves. */
+export function loadConfigFile(): ConfigFile {
+  return parseConfigFile(readJSONFile<unknown>(CONFIG_FILE), CONFIG_FILE)
+}
+
+/** Refuses to write anything the next load would reject. */
+function persist(file: ConfigFile) {
+  const data = { version: CONFIG_VERSION, ...file }
+  parseConfigFile(data, "config change")
+  writeJSONFile(CONFIG_FILE, data)
+}
+
+/** Re-reads the file under the lock so concurrent processes do not drop each other's changes. */
+function updateConfigFile<T>(change: (file: ConfigFile) => T): T {
+  return withFileLock(CONFIG_FILE, () => {
+    const file = parseConfigFile(readJSONFile<unknown>(CONFIG_FILE), CONFIG_FILE)
+    const result = change(file)
+    persist(file)
+    return result
+  })
+}
+
+export function currentProfileName(): string {
+  return loadConfigFile().currentProfile
+}
+
+export function hasProfile(name: string): boolean {
+  return name in loadConfigFile().profiles
+}
+
+export function listProfiles(): [string, StoredConfig][] {
+  return Object.entries(loadConfigFile().profiles)
+}
+
+/** Loads `profile`, or the current profile when omitted. Missing profiles read as empty. */
+export function loadConfig(profile?: string): StoredConfig {
+  const file = loadConfigFile()
+  return file.profiles[profile ?? file.currentProfile] ?? {}
+}
+
+export function saveConfig(config: StoredConfig, profile?: string) {
+  updateConfigFile((file) => {
+    const name = profile ?? file.currentProfile
+    file.profiles[name] = { ...(file.profiles[name] ?? {}), ...config }
+  })
+}
+
+export function addProfile(name: string, config: StoredConfig) {
+  updateConfigFile((file) => {
+    if (file.profiles[name]) {
+      throw new Error(`Profile "${name}" already exists.`)
+    }
+    file.profiles[name] = config
+    if (Object.keys(file.profiles).length === 1) {
+      file.currentProfile = name
+    }
+  })
+}
+
+/** Removes a profile; removing the current one switches to the first remaining profile. */
+export function removeProfile(name: string): string {
+  return updateConfigFile((file) => {
+    if (!file.profiles[name]) {
+      throw new Error(`Unknown profile "${name}".`)
+    }
+    delete file.profiles[name]
+    if (file.currentProfile === name) {
+      file.currentProfile = Object.keys(file.profiles)[0] ?? DEFAULT_PROFILE
+    }
+    return file.currentProfile
+  })
 }
 
-export function saveConfig(config: StoredConfig) {
-  const current = loadConfig()
-  writeJSONFile(CONFIG_FILE, { ...current, ...config })
+export function useProfile(name: string) {
+  updateConfigFile((file) => {
+    if (!file.profiles[name]) {
+      throw new Error(`Unknown profile "${name}".`)
+    }
+    file.currentProfile = name
+  })
 }
@@ -0,0 +1,57 @@
+import crypto from "node:crypto"
+import { getConfigPath, readJSONFile, writeJSONFile } from "../utils/fs"
+import { seal, unseal, type SealedBox } from "../utils/secretBox"
+import type { CredentialProvider, Credentials } from "./credentialProvider"
+
+type CredentialFileData = Record<string, Credentials>
+
+const CREDENTIAL_FILE = getConfigPath("credentials.enc.json")
+
+/**
+ * Keeps credentials for every host in one passphrase-encrypted file. The passphrase is asked for
+ * once per process (`isNew` tells the caller a new file is about to be created).
+ */
+export function createEncryptedFileProvider(
+  host: string,
+  askPassphrase: (isNew: boolean) => Promise<string>,
+  filePath = CREDENTIAL_FILE,
+): CredentialProvider {
+  const key = host.trim().replace(/\/+$/, "").toLowerCase()
+  let passphrase: string | undefined
+
+  async function readAll(): Promise<CredentialFileData> {
+    const box = readJSONFile<SealedBox>(filePath)
+    if (!box) {
+      return {}
+    }
+    const candidate = passphrase ?? (await askPassphrase(false))
+    const data = unseal<CredentialFileData>(box, candidate)
+    passphrase = candidate
+    return data
+  }
+
+  async function writeAll(data: CredentialFileData) {
+    const existing = readJSONFile<SealedBox>(filePath)
+    passphrase ??= await askPassphrase(!existing)
+    const salt = existing ? Buffer.from(existing.salt, "base64") : crypto.randomBytes(16)
+    writeJSONFile(filePath, seal(data, passphrase, salt))
+  }
+
+  return {
+    label: "the encrypted credentials file",
+    async load() {
+      return (await readAll())[key]
+    },
+    async save(credentials) {
+      await writeAll({ ...(await readAll()), [key]: credentials })
+    },
+    async clear() {
+      const data = await readAll()
+      delete data[key]
+      await writeAll(data)
+    },
+    async unlock() {
+      await readAll()
+    },
+  }
+}
@@ -0,0 +1,70 @@
+import { spawnSync } from "node:child_process"
+
+export type CredentialProviderName =
+  | "prompt"
+  | "1password"
+  | "bitwarden"
+  | "pass"
+  | "gopass"
+  | "env"
+  | "secret-service"
+  | "file"
+
+export interface Credentials {
+  username: string
+  password: string
+}
+
+export interface CredentialProvider {
+  readonly label: string
+  /** Returns the stored credentials, or undefined when nothing has been stored yet. */
+  load(): Promise<Credentials | undefined>
+  /** Current one-time code, for providers that can produce one. */
+  otp?(): Promise<string | undefined>
+  /** Stores credentials entered at the prompt once DSM has accepted them. */
+  save?(credentials: Credentials): Promise<void>
+  /** Forgets stored credentials after DSM rejects them. */
+  clear?(): Promise<void>
+  /** Asks for anything interactive (e.g. a passphrase) up front, before the TUI owns the terminal. */
+  unlock?(): Promise<void>
+}
+
+export interface CommandResult {
+  status: number | null
+  stdout: string
+  stderr: string
+  error?: Error
+}
+
+export type CommandRunner = (command: string, args: string[], input?: string) => CommandResult
+
+export const runCommand: CommandRunner = (command, args, input) => {
+  const result = spawnSync(command, args, { encoding: "utf8", input })
+  return { status: result.status, stdout: result.stdout ?? "", stderr: result.stderr ?? "", error: result.error }
+}
+
+/** Runs a helper binary and returns its stdout, turning a missing binary or non-zero exit into a readable error. */
+export function runOrThrow(run: CommandRunner, command: string, args: string[], input?: string): string {
+  const result = run(command, args, input)
+  if (result.error) {
+    throw new Error(`Unable to run ${command}: ${result.error.message}`)
+  }
+  if (result.status !== 0) {
+    throw new Error(result.stderr.trim() || `${command} exited with status ${result.status}.`)
+  }
+  return result.stdout
+}
+
+export function parseStoredCredentials(raw: string, source: string): Credentials {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    throw new Error(`Credentials in ${source} are not valid JSON.`)
+  }
+  const { username, password } = (parsed ?? {}) as Partial<Credentials>
+  if (typeof username !== "string" || typeof password !== "string" || !username || !password) {
+    throw new Error(`Credentials in ${source} must contain a username and password.`)
+  }
+  return { username, password }
+}
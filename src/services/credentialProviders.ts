@@ -0,0 +1,65 @@
+import { createBitwardenProvider } from "./bitwarden"
+import { createEncryptedFileProvider } from "./credentialFile"
+import type { CredentialProvider, CredentialProviderName } from "./credentialProvider"
+import { createEnvCredentialProvider } from "./envCredentials"
+import { createOnePasswordProvider } from "./onePassword"
+import { createPasswordStoreProvider } from "./passwordStore"
+import { createSecretServiceProvider } from "./secretService"
+
+export type CredentialBinary = "op" | "bw" | "pass" | "gopass"
+
+export interface CredentialProviderContext {
+  host: string
+  opItem?: string
+  opVault?: string
+  // Bitwarden item or pass/gopass entry; defaults are derived from the host.
+  item?: string
+  binaries?: Partial<Record<CredentialBinary, string>>
+  env?: NodeJS.ProcessEnv
+  askPassphrase: (isNew: boolean) => Promise<string>
+}
+
+type CredentialProviderFactory = (context: CredentialProviderContext) => CredentialProvider | undefined
+
+const CREDENTIAL_PROVIDERS: Record<CredentialProviderName, CredentialProviderFactory> = {
+  prompt: () => undefined,
+  "1password": (context) => {
+    if (!context.opItem) {
+      throw new Error('The "1password" credential provider needs --op-item.')
+    }
+    return createOnePasswordProvider(context.opItem, context.opVault, context.binaries?.op)
+  },
+  bitwarden: (context) => createBitwardenProvider(context.item ?? hostName(context.host), context.binaries?.bw),
+  pass: (context) => createPasswordStoreProvider(context.item ?? `synology-ds/${hostName(context.host)}`, context.binaries?.pass),
+  gopass: (context) =>
+    createPasswordStoreProvider(context.item ?? `synology-ds/${hostName(context.host)}`, context.binaries?.gopass ?? "gopass"),
+  env: (context) => createEnvCredentialProvider(context.env),
+  "secret-service": (context) => createSecretServiceProvider(context.host),
+  file: (context) => createEncryptedFileProvider(context.host, context.askPassphrase),
+}
+
+export const CREDENTIAL_PROVIDER_NAMES = Object.keys(CREDENTIAL_PROVIDERS) as CredentialProviderName[]
+
+export function parseCredentialProviderName(value: string): CredentialProviderName {
+  const name = value.trim().toLowerCase()
+  if (!(CREDENTIAL_PROVIDER_NAMES as string[]).includes(name)) {
+    throw new Error(`Unknown credential provider "${value}". Available: ${CREDENTIAL_PROVIDER_NAMES.join(", ")}.`)
+  }
+  return name as CredentialProviderName
+}
+
+/** Returns undefined for "prompt", where credentials are typed in on the terminal. */
+export function createCredentialProvider(
+  name: CredentialProviderName,
+  context: CredentialProviderContext,
+): CredentialProvider | undefined {
+  return CREDENTIAL_PROVIDERS[name](context)
+}
+
+function hostName(host: string): string {
+  try {
+    return new URL(host).hostname
+  } catch {
+    return host
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  checkFields,
+  isObject,
+  isRecord,
+  isString,
+  isTimestamp,
+  throwIfInvalid,
+  upgradeFile,
+  type FieldCheck,
+  type Migration,
+} from "../utils/fileSchema"
+import { getConfigPath, readJSONFile, withFileLock, writeJSONFile } from "../utils/fs"
+
+export interface DeviceToken {
+  deviceId: string
+  deviceName: string
+  createdAt: string
+  lastUsedAt?: string
+}
+
+export interface StoredDeviceToken extends DeviceToken {
+  host: string
+  username: string
+}
+
+// host -> username -> token
+type DeviceTokenStoreData = Record<string, Record<string, DeviceToken>>
+
+const DEVICE_TOKEN_FILE = getConfigPath("device-tokens.json")
+
+const DEVICE_TOKEN_FIELDS: Record<keyof DeviceToken, FieldCheck> = {
+  deviceId: isString,
+  deviceName: isString,
+  createdAt: isTimestamp,
+  lastUsedAt: isTimestamp,
+}
+
+const DEVICE_TOKEN_MIGRATIONS: Migration[] = [
+  // 0 -> 1: hosts move under "tokens" so the file can carry a version.
+  (data) => ({ tokens: data }),
+]
+
+export const DEVICE_TOKEN_FILE_VERSION = DEVICE_TOKEN_MIGRATIONS.length
+
+/** Migrates and validates device-tokens.json contents; undefined (no file yet) has no tokens. */
+export function parseDeviceTokenFile(raw: unknown, label = "device-tokens.json"): DeviceTokenStoreData {
+  if (raw === undefined) {
+    return {}
+  }
+  const data = upgradeFile(raw, DEVICE_TOKEN_MIGRATIONS, label)
+  const errors: string[] = []
+  checkFields(data, { tokens: isObject }, "", errors)
+  if (isRecord(data.tokens)) {
+    for (const [host, users] of Object.entries(data.tokens)) {
+      if (!isRecord(users)) {
+        errors.push(`tokens.${host}: expected an object`)
+        continue
+      }
+      for (const [username, token] of Object.entries(users)) {
+        checkFields(token, DEVICE_TOKEN_FIELDS, `tokens.${host}.${username}`, errors)
+      }
+    }
+  }
+  throwIfInvalid(`${label} (delete it to start over; the NAS will ask for a one-time code again)`, errors)
+  return (data.tokens as DeviceTokenStoreData | undefined) ?? {}
+}
+
+function loadAll(): DeviceTokenStoreData {
+  return parseDeviceTokenFile(readJSONFile<unknown>(DEVICE_TOKEN_FILE), DEVICE_TOKEN_FILE)
+}
+
+/** Re-reads the file under the lock and writes it back only when `change` modified the store. */
+function updateStore<T>(change: (store: DeviceTokenStoreData) => T): T {
+  return withFileLock(DEVICE_TOKEN_FILE, () => {
+    const store = loadAll()
+    const before = JSON.stringify(store)
+    const result = change(store)
+    if (JSON.stringify(store) !== before) {
+      writeJSONFile(DEVICE_TOKEN_FILE, { version: DEVICE_TOKEN_FILE_VERSION, tokens: store })
+    }
+    return result
+  })
+}
+
+function keyFor(host: string): string {
+  return host.trim().replace(/\/+$/, "").toLowerCase()
+}
+
+export function loadDeviceToken(host: string, username: string): DeviceToken | undefined {
+  return loadAll()[keyFor(host)]?.[username]
+}
+
+export function listDeviceTokens(): StoredDeviceToken[] {
+  return Object.entries(loadAll()).flatMap(([host, users]) =>
+    Object.entries(users).map(([username, token]) => ({ ...token, host, username })),
+  )
+}
+
+export function saveDeviceToken(host: string, username: string, token: DeviceToken) {
+  updateStore((store) => {
+    const key = keyFor(host)
+    store[key] = { ...(store[key] ?? {}), [username]: token }
+  })
+}
+
+/** Forgets the token for one user, or every token for the host when `username` is omitted. Returns how many were removed. */
+export function removeDeviceTokens(host: string, username?: string): number {
+  return updateStore((store) => {
+    const key = keyFor(host)
+    const users = store[key]
+    if (!users) {
+      return 0
+    }
+    if (username === undefined) {
+      delete store[key]
+      return Object.keys(users).length
+    }
+    if (!users[username]) {
+      return 0
+    }
+    delete users[username]
+    if (Object.keys(users).length === 0) {
+      delete store[key]
+    }
+    return 1
+  })
+}
@@ -0,0 +1,27 @@
+import { runCommand, runOrThrow, type CommandRunner, type CredentialProvider } from "./credentialProvider"
+
+/** Reads SYNOLOGY_USERNAME/SYNOLOGY_PASSWORD; SYNOLOGY_OTP_COMMAND is run through `sh -c` for a one-time code. */
+export function createEnvCredentialProvider(
+  env: NodeJS.ProcessEnv = process.env,
+  run: CommandRunner = runCommand,
+): CredentialProvider {
+  return {
+    label: "environment variables",
+    async load() {
+      const username = env.SYNOLOGY_USERNAME
+      const password = env.SYNOLOGY_PASSWORD
+      if (!username || !password) {
+        throw new Error("Set SYNOLOGY_USERNAME and SYNOLOGY_PASSWORD to use environment credentials.")
+      }
+      return { username, password }
+    },
+    async otp() {
+      const command = env.SYNOLOGY_OTP_COMMAND
+      if (!command) {
+        return undefined
+      }
+      const code = runOrThrow(run, "sh", ["-c", command]).trim()
+      return code ? code : undefined
+    },
+  }
+}
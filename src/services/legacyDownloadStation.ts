@@ -0,0 +1,52 @@
+import type { FailedTask, LegacyTask, LegacyTaskOperationResponse, Task, TaskStatusCode } from "../types/synology"
+
+export const LEGACY_TASK_API = "SYNO.DownloadStation.Task"
+
+const LEGACY_STATUS_CODES: Record<string, TaskStatusCode> = {
+  waiting: 1,
+  downloading: 2,
+  paused: 3,
+  finishing: 4,
+  finished: 5,
+  hash_checking: 6,
+  seeding: 8,
+  filehosting_waiting: 9,
+  extracting: 10,
+}
+
+// DS2 reserves 101+ for errors; DSM 6 only says "error", so every failure maps to the first error code.
+const LEGACY_ERROR_STATUS = 101 as TaskStatusCode
+
+/** Converts a DSM 6 task into the DS2 shape the rest of the app works with. */
+export function fromLegacyTask(task: LegacyTask): Task {
+  const { detail, ...additional } = task.additional ?? {}
+  return {
+    id: task.id,
+    username: task.username,
+    type: task.type,
+    title: task.title,
+    size: task.size,
+    status: LEGACY_STATUS_CODES[task.status] ?? LEGACY_ERROR_STATUS,
+    status_extra: task.status_extra,
+    additional: {
+      ...additional,
+      detail: detail && {
+        destination: detail.destination,
+        uri: detail.uri,
+        created_time: detail.create_time,
+        started_time: detail.started_time,
+        completed_time: detail.completed_time,
+        connected_leechers: detail.connected_leechers,
+        connected_seeders: detail.connected_seeders,
+        connected_peers: detail.connected_peers,
+        total_peers: detail.total_peers,
+        seed_elapsed: detail.seedelapsed,
+        waiting_seconds: detail.waiting_seconds,
+      },
+    },
+  }
+}
+
+export function toFailedTasks(results: LegacyTaskOperationResponse | undefined): FailedTask[] {
+  return (results ?? []).filter((result) => result.error !== 0)
+}
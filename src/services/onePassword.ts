@@ -1,4 +1,4 @@
-import { spawnSync } from "node:child_process"
+import { runCommand, type CommandRunner, type CredentialProvider } from "./credentialProvider"
 
 export interface OnePasswordCredentials {
   username: string
@@ -19,14 +19,19 @@ interface OnePasswordItem {
   totp?: string
 }
 
-export function fetchOnePasswordCredentials(item: string, vault?: string): OnePasswordCredentials {
-  const args = ["op", "item", "get", item, "--format", "json"]
+export function fetchOnePasswordCredentials(
+  item: string,
+  vault?: string,
+  binary = "op",
+  run: CommandRunner = runCommand,
+): OnePasswordCredentials {
+  const args = ["item", "get", item, "--format", "json"]
   if (vault) {
     args.push("--vault", vault)
   }
-  const result = spawnSync("env", args, { encoding: "utf8" })
+  const result = run(binary, args)
   if (result.status !== 0) {
-    throw new Error(result.stderr?.trim() || "Failed to invoke 1Password CLI. Ensure you ran `eval \"$(op signin)\"`.")
+    throw new Error(result.stderr.trim() || "Failed to invoke 1Password CLI. Ensure you ran `eval \"$(op signin)\"`.")
   }
 
   const itemJson = JSON.parse(result.stdout) as OnePasswordItem
@@ -41,12 +46,17 @@ export function fetchOnePasswordCredentials(item: string, vault?: string): OnePa
   return { username, password, totp }
 }
 
-export function fetchOnePasswordTotp(item: string, vault?: string): string | undefined {
-  const args = ["op", "item", "get", item, "--otp"]
+export function fetchOnePasswordTotp(
+  item: string,
+  vault?: string,
+  binary = "op",
+  run: CommandRunner = runCommand,
+): string | undefined {
+  const args = ["item", "get", item, "--otp"]
   if (vault) {
     args.push("--vault", vault)
   }
-  const result = spawnSync("env", args, { encoding: "utf8" })
+  const result = run(binary, args)
   if (result.status !== 0) {
     return undefined
   }
@@ -54,6 +64,21 @@ export function fetchOnePasswordTotp(item: string, vault?: string): string | und
   return code.length > 0 ? code : undefined
 }
 
+export function createOnePasswordProvider(item: string, vault?: string, binary = "op"): CredentialProvider {
+  let itemTotp: string | undefined
+  return {
+    label: "1Password",
+    async load() {
+      const creds = fetchOnePasswordCredentials(item, vault, binary)
+      itemTotp = creds.totp
+      return { username: creds.username, password: creds.password }
+    },
+    async otp() {
+      return fetchOnePasswordTotp(item, vault, binary) ?? itemTotp
+    },
+  }
+}
+
 function findField(item: OnePasswordItem, keys: string[]): string | undefined {
   const lowered = keys.map((k) => k.toLowerCase())
   const fields = [...(item.fields ?? []), ...(item.sections?.flatMap((section) => section.fields ?? []) ?? [])]
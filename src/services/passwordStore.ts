@@ -0,0 +1,28 @@
+import { runCommand, runOrThrow, type CommandRunner, type CredentialProvider } from "./credentialProvider"
+
+const USERNAME_KEYS = ["username", "user", "login"]
+
+/**
+ * Reads a `pass`/`gopass` entry: the first line is the password and a `username:` (or `user:`/`login:`)
+ * line names the account. One-time codes come from the pass-otp extension or `gopass otp`.
+ */
+export function createPasswordStoreProvider(entry: string, binary = "pass", run: CommandRunner = runCommand): CredentialProvider {
+  return {
+    label: binary,
+    async load() {
+      const [password, ...rest] = runOrThrow(run, binary, ["show", entry]).split(/\r?\n/)
+      const username = rest
+        .map((line) => line.match(/^\s*([\w-]+)\s*:\s*(.+?)\s*$/))
+        .find((match) => match && USERNAME_KEYS.includes(match[1].toLowerCase()))?.[2]
+      if (!password || !username) {
+        throw new Error(`${binary} entry "${entry}" needs the password on its first line and a "username:" line.`)
+      }
+      return { username, password }
+    },
+    async otp() {
+      const result = run(binary, ["otp", entry])
+      const code = result.status === 0 ? result.stdout.trim().split(/\s+/)[0] : ""
+      return code ? code : undefined
+    },
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  parseStoredCredentials,
+  runCommand,
+  runOrThrow,
+  type CommandRunner,
+  type CredentialProvider,
+} from "./credentialProvider"
+
+const SERVICE_ATTRIBUTE = "synology-ds"
+
+/** Keeps `{username, password}` as one libsecret item per host, via the `secret-tool` CLI. */
+export function createSecretServiceProvider(host: string, run: CommandRunner = runCommand): CredentialProvider {
+  const attributes = ["service", SERVICE_ATTRIBUTE, "host", host]
+  return {
+    label: "the Secret Service keyring",
+    async load() {
+      const result = run("secret-tool", ["lookup", ...attributes])
+      if (result.error) {
+        throw new Error(`Unable to run secret-tool (install libsecret-tools): ${result.error.message}`)
+      }
+      // `lookup` exits 1 with no output when nothing matches.
+      if (result.status !== 0 || result.stdout.trim() === "") {
+        return undefined
+      }
+      return parseStoredCredentials(result.stdout, "the Secret Service keyring")
+    },
+    async save(credentials) {
+      runOrThrow(run, "secret-tool", ["store", "--label", `synology-ds ${host}`, ...attributes], JSON.stringify(credentials))
+    },
+    async clear() {
+      run("secret-tool", ["clear", ...attributes])
+    },
+  }
+}
+
+export interface KeyringSecret {
+  read(): string | undefined
+  write(secret: string): void
+  clear(): void
+}
+
+/** One secret in the keyring that is not tied to a host, such as the session cache key. */
+export function createKeyringSecret(purpose: string, run: CommandRunner = runCommand): KeyringSecret {
+  const attributes = ["service", SERVICE_ATTRIBUTE, "purpose", purpose]
+  return {
+    read() {
+      const result = run("secret-tool", ["lookup", ...attributes])
+      if (result.error) {
+        throw new Error(`Unable to run secret-tool (install libsecret-tools): ${result.error.message}`)
+      }
+      const secret = result.stdout.trim()
+      return result.status === 0 && secret !== "" ? secret : undefined
+    },
+    write(secret) {
+      runOrThrow(run, "secret-tool", ["store", "--label", `synology-ds ${purpose}`, ...attributes], secret)
+    },
+    clear() {
+      run("secret-tool", ["clear", ...attributes])
+    },
+  }
+}
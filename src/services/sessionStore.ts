@@ -1,22 +1,162 @@
-import { getConfigPath, readJSONFile, writeJSONFile } from "../utils/fs"
+import crypto from "node:crypto"
+import type { ApiInfo } from "../types/synology"
+import {
+  checkFields,
+  isObject,
+  isPositiveInteger,
+  isRecord,
+  isString,
+  isStringArray,
+  isTimestamp,
+  oneOf,
+  throwIfInvalid,
+  upgradeFile,
+  type FieldCheck,
+  type Migration,
+} from "../utils/fileSchema"
+import { getConfigPath, readJSONFile, withFileLock, writeJSONFile } from "../utils/fs"
+import { deriveKey, sealWithKey, unsealWithKey, type SealedBox } from "../utils/secretBox"
 
 export interface SessionState {
   sid?: string
   username?: string
   destination?: string
+  recentDestinations?: string[]
+  apiInfo?: ApiInfo
+  // When the SID was last confirmed valid (login or a successful request), as an ISO timestamp.
   updatedAt?: string
 }
 
 type SessionStoreData = Record<string, SessionState>
 
+export type SessionEncryption = "passphrase" | "keyring"
+
 const SESSION_FILE = getConfigPath("sessions.json")
 
+const SESSION_FIELDS: Record<keyof SessionState, FieldCheck> = {
+  sid: isString,
+  username: isString,
+  destination: isString,
+  recentDestinations: isStringArray,
+  apiInfo: isObject,
+  updatedAt: isTimestamp,
+}
+
+const SEALED_FIELDS: Record<keyof SealedBox, FieldCheck> = {
+  version: isPositiveInteger,
+  salt: isString,
+  iv: isString,
+  tag: isString,
+  data: isString,
+}
+
+const SESSION_MIGRATIONS: Migration[] = [
+  // 0 -> 1: hosts move under "sessions" so the file can carry a version.
+  (data) => ({ sessions: data }),
+  // 1 -> 2: sessions may instead be sealed under "sealed"; plaintext files are unchanged.
+  (data) => data,
+]
+
+export const SESSION_FILE_VERSION = SESSION_MIGRATIONS.length
+
+// Key for an encrypted sessions.json. Without it an encrypted store reads as empty and is never written,
+// so a run that cannot unlock the cache still works and leaves the file intact.
+let sessionSecret: string | undefined
+let derivedKey: { secret: string; salt: string; key: Buffer } | undefined
+
+/**
+ * Migrates and validates sessions.json contents; undefined (no file yet) has no sessions. Encrypted files
+ * are opened with `secret`, and return undefined without one.
+ */
+export function parseSessionFile(raw: unknown, label = "sessions.json", secret?: string): SessionStoreData | undefined {
+  if (raw === undefined) {
+    return {}
+  }
+  const data = upgradeFile(raw, SESSION_MIGRATIONS, label)
+  const errors: string[] = []
+  checkFields(data, { sessions: isObject, encryption: oneOf(["passphrase", "keyring"]), sealed: isObject }, "", errors)
+  if ((data.encryption === undefined) !== (data.sealed === undefined)) {
+    errors.push("encryption and sealed must be set together")
+  }
+  if (data.sealed !== undefined) {
+    checkFields(data.sealed, SEALED_FIELDS, "sealed", errors)
+  }
+  throwIfInvalid(label, errors)
+  let sessions = data.sessions
+  if (data.sealed) {
+    if (secret === undefined) {
+      return undefined
+    }
+    const box = data.sealed as SealedBox
+    sessions = unsealWithKey(box, sessionKey(secret, box.salt))
+  }
+  if (isRecord(sessions)) {
+    for (const [host, session] of Object.entries(sessions)) {
+      checkFields(session, SESSION_FIELDS, `sessions.${host}`, errors)
+    }
+  }
+  throwIfInvalid(`${label} (delete it to start over; cached sessions will sign in again)`, errors)
+  return (sessions as SessionStoreData | undefined) ?? {}
+}
+
+/** How sessions.json is encrypted, or undefined when it is plaintext (or missing). */
+export function sessionEncryption(): SessionEncryption | undefined {
+  const raw = readJSONFile<{ encryption?: SessionEncryption }>(SESSION_FILE)
+  return isRecord(raw) ? raw.encryption : undefined
+}
+
+/** Opens an encrypted store for the rest of the process; throws when `secret` does not decrypt it. */
+export function unlockSessions(secret: string) {
+  parseSessionFile(readJSONFile<unknown>(SESSION_FILE), SESSION_FILE, secret)
+  sessionSecret = secret
+}
+
+/** Re-encrypts every session under a new key and salt, or writes them in plaintext when `next` is omitted. */
+export function rekeySessions(next?: { encryption: SessionEncryption; secret: string }) {
+  withFileLock(SESSION_FILE, () => {
+    const store = parseSessionFile(readJSONFile<unknown>(SESSION_FILE), SESSION_FILE, sessionSecret)
+    if (!store) {
+      throw new Error("The session cache is encrypted and has not been unlocked.")
+    }
+    sessionSecret = next?.secret
+    writeStore(store, next?.encryption, crypto.randomBytes(16))
+  })
+}
+
 function loadAll(): SessionStoreData {
-  return readJSONFile<SessionStoreData>(SESSION_FILE) ?? {}
+  return parseSessionFile(readJSONFile<unknown>(SESSION_FILE), SESSION_FILE, sessionSecret) ?? {}
+}
+
+/** Re-reads the file under the lock so concurrent processes do not drop each other's sessions. */
+function updateStore<T>(change: (store: SessionStoreData) => T): T {
+  return withFileLock(SESSION_FILE, () => {
+    const raw = readJSONFile<{ encryption?: SessionEncryption; sealed?: SealedBox }>(SESSION_FILE)
+    const store = parseSessionFile(raw, SESSION_FILE, sessionSecret)
+    if (!store) {
+      return change({})
+    }
+    const result = change(store)
+    const salt = raw?.sealed ? Buffer.from(raw.sealed.salt, "base64") : crypto.randomBytes(16)
+    writeStore(store, raw?.encryption, salt)
+    return result
+  })
+}
+
+function writeStore(store: SessionStoreData, encryption: SessionEncryption | undefined, salt: Buffer) {
+  if (encryption && sessionSecret !== undefined) {
+    const sealed = sealWithKey(store, sessionKey(sessionSecret, salt.toString("base64")), salt)
+    writeJSONFile(SESSION_FILE, { version: SESSION_FILE_VERSION, encryption, sealed })
+  } else {
+    writeJSONFile(SESSION_FILE, { version: SESSION_FILE_VERSION, sessions: store })
+  }
 }
 
-function persist(store: SessionStoreData) {
-  writeJSONFile(SESSION_FILE, store)
+// scrypt is deliberately slow, so the key is derived once per secret and salt.
+function sessionKey(secret: string, salt: string): Buffer {
+  if (derivedKey?.secret !== secret || derivedKey.salt !== salt) {
+    derivedKey = { secret, salt, key: deriveKey(secret, Buffer.from(salt, "base64")) }
+  }
+  return derivedKey.key
 }
 
 function keyFor(host: string): string {
@@ -28,22 +168,26 @@ export function loadSession(host: string): SessionState | undefined {
   return store[keyFor(host)]
 }
 
+export function listSessions(): [string, SessionState][] {
+  return Object.entries(loadAll())
+}
+
 export function saveSession(host: string, session: SessionState) {
-  const store = loadAll()
-  store[keyFor(host)] = session
-  persist(store)
+  updateStore((store) => {
+    store[keyFor(host)] = session
+  })
 }
 
 export function updateSession(host: string, partial: SessionState) {
-  const store = loadAll()
-  const key = keyFor(host)
-  store[key] = { ...(store[key] ?? {}), ...partial }
-  persist(store)
-  return store[key]
+  return updateStore((store) => {
+    const key = keyFor(host)
+    store[key] = { ...(store[key] ?? {}), ...partial }
+    return store[key]
+  })
 }
 
 export function deleteSession(host: string) {
-  const store = loadAll()
-  delete store[keyFor(host)]
-  persist(store)
+  updateStore((store) => {
+    delete store[keyFor(host)]
+  })
 }
@@ -0,0 +1,111 @@
+export interface UriSchemeHandler {
+  schemes: string[]
+  /** Returns the normalised URI or throws with a user-facing reason. */
+  normalize: (uri: string, scheme: string) => string
+}
+
+export type UriValidationResult =
+  | { input: string; valid: true; uri: string }
+  | { input: string; valid: false; error: string }
+
+export class UriValidator {
+  private readonly handlers = new Map<string, UriSchemeHandler>()
+
+  constructor(handlers: UriSchemeHandler[] = DEFAULT_URI_HANDLERS) {
+    for (const handler of handlers) {
+      this.register(handler)
+    }
+  }
+
+  register(handler: UriSchemeHandler) {
+    for (const scheme of handler.schemes) {
+      this.handlers.set(scheme.toLowerCase(), handler)
+    }
+    return this
+  }
+
+  get schemes(): string[] {
+    return [...this.handlers.keys()]
+  }
+
+  validate(input: string): UriValidationResult {
+    const trimmed = input.trim()
+    const match = /^([a-z][a-z0-9+.-]*):/i.exec(trimmed)
+    if (!match) {
+      return { input, valid: false, error: "Missing URL scheme (e.g. https:// or magnet:)." }
+    }
+    const scheme = match[1].toLowerCase()
+    const handler = this.handlers.get(scheme)
+    if (!handler) {
+      return { input, valid: false, error: `Unsupported URL scheme "${scheme}".` }
+    }
+    const normalizedScheme = `${scheme}${trimmed.slice(scheme.length)}`
+    try {
+      return { input, valid: true, uri: handler.normalize(normalizedScheme, scheme) }
+    } catch (error) {
+      return { input, valid: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  normalize(input: string): string {
+    const result = this.validate(input)
+    if (!result.valid) {
+      throw new Error(result.error)
+    }
+    return result.uri
+  }
+}
+
+const networkHandler: UriSchemeHandler = {
+  schemes: ["http", "https", "ftp", "ftps", "sftp"],
+  normalize(uri) {
+    let parsed: URL
+    try {
+      parsed = new URL(uri)
+    } catch {
+      throw new Error("Malformed URL.")
+    }
+    if (!parsed.hostname) {
+      throw new Error("URL is missing a host.")
+    }
+    return parsed.toString()
+  },
+}
+
+const magnetHandler: UriSchemeHandler = {
+  schemes: ["magnet"],
+  normalize(uri) {
+    const query = uri.slice("magnet:".length).replace(/^\?/, "")
+    const topics = new URLSearchParams(query).getAll("xt")
+    if (!topics.some((topic) => /^urn:[a-z0-9]+:\S+$/i.test(topic))) {
+      throw new Error("Magnet link is missing an xt=urn: parameter.")
+    }
+    return `magnet:?${query}`
+  },
+}
+
+const ed2kHandler: UriSchemeHandler = {
+  schemes: ["ed2k"],
+  normalize(uri) {
+    if (!/^ed2k:\/\/\|(file|server|serverlist)\|.+\|\/?$/i.test(uri)) {
+      throw new Error("ed2k link must look like ed2k://|file|name|size|hash|/.")
+    }
+    return uri
+  },
+}
+
+// Thunder/FlashGet/QQ links wrap a real URL in base64; DSM decodes them itself.
+const wrappedHandler: UriSchemeHandler = {
+  schemes: ["thunder", "flashget", "qqdl"],
+  normalize(uri, scheme) {
+    const payload = uri.slice(`${scheme}://`.length).replace(/\/+$/, "")
+    if (!uri.startsWith(`${scheme}://`) || !/^[A-Za-z0-9+/=&]+$/.test(payload)) {
+      throw new Error(`${scheme}:// link must carry a base64 payload.`)
+    }
+    return uri
+  },
+}
+
+export const DEFAULT_URI_HANDLERS: UriSchemeHandler[] = [networkHandler, magnetHandler, ed2kHandler, wrappedHandler]
+
+export const defaultUriValidator = new UriValidator()
@@ -1,20 +1,72 @@
 /** @jsxImportSource @opentui/react */
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import type { TextareaRenderable } from "@opentui/core"
-import type { Task } from "../types/synology"
+import type { FailedTask, SpeedLimits, Task, TaskFileList } from "../types/synology"
 import { SynologyClient, SynologyRequestError } from "../services/SynologyClient"
-import { formatBytes, formatPercent, formatSpeed, deriveProgress } from "../utils/formatting"
+import {
+  DEFAULT_TASK_QUERY,
+  SORT_KEYS,
+  STATUS_FILTERS,
+  applyTaskQuery,
+  clampScrollOffset,
+  type SortKey,
+  type TaskQuery,
+} from "../utils/taskQuery"
+import { addRecentDestination } from "../utils/destination"
+import { ConfirmDialog } from "./ConfirmDialog"
+import { DestinationPicker } from "./DestinationPicker"
+import { FilePicker } from "./FilePicker"
+import { RssView } from "./RssView"
+import { SearchView } from "./SearchView"
+import { SpeedLimitsPanel } from "./SpeedLimitsPanel"
+import { TaskDetail } from "./TaskDetail"
+import { withSessionRetry } from "./withSession"
+import { formatRate } from "../utils/rates"
+import { describeStatus, describeTaskError, fitColumn, formatBytes, formatPercent, formatSpeed, deriveProgress } from "../utils/formatting"
 import { useKeyboard, useTerminalDimensions } from "@opentui/react"
+import os from "node:os"
+import path from "node:path"
 import stripAnsi from "strip-ansi"
 
-interface AppProps {
+/** One signed-in NAS; the dashboard shows several side by side. */
+export interface NasConnection {
+  name: string
   client: SynologyClient
   host: string
   username: string
   refreshSession: () => Promise<void>
   initialTasks?: Task[]
   initialDestination?: string
+  initialRecentDestinations?: string[]
   onDestinationChange?: (destination: string) => void
+  onDestinationSelected?: (destination: string) => void
+  onSessionActive?: () => void
+  revalidateSession?: () => Promise<void>
+  onExit?: () => Promise<void>
+}
+
+interface AppProps {
+  connections: NasConnection[]
+}
+
+// Tasks remember which NAS they came from so actions are routed back to it.
+type NasTask = Task & { nas: string }
+
+interface NasStatus {
+  state: "ok" | "reauth" | "error"
+  message?: string
+}
+
+interface PendingFileList {
+  nas: string
+  listId: string
+  list: TaskFileList
+}
+
+interface PendingConfirm {
+  message: string
+  detail?: string
+  onConfirm: () => void
 }
 
 interface StatusMessage {
@@ -24,8 +76,25 @@ interface StatusMessage {
 
 const REFRESH_INTERVAL_MS = 1000
 
+const VIEWS = ["tasks", "rss", "search"] as const
+
+type View = (typeof VIEWS)[number]
+
+const VIEW_LABELS: Record<View, string> = {
+  tasks: "Tasks",
+  rss: "RSS",
+  search: "BT Search",
+}
+
+const MAX_INLINE_ERRORS = 5
+
+const UNDO_WINDOW_MS = 5000
+
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000
+
 const COLUMN_MIN_WIDTHS = {
   indicator: 2,
+  host: 12,
   title: 20,
   status: 12,
   progress: 8,
@@ -36,6 +105,8 @@ const COLUMN_MIN_WIDTHS = {
 
 const COLUMN_ABSOLUTE_MIN = {
   indicator: 2,
+  // fitColumn never renders narrower than 8.
+  host: 8,
   title: 12,
   status: 9,
   progress: 6,
@@ -46,6 +117,8 @@ const COLUMN_ABSOLUTE_MIN = {
 
 type ColumnWidths = {
   indicator: number
+  // 0 unless several NAS are connected.
+  host: number
   title: number
   status: number
   progress: number
@@ -56,42 +129,81 @@ type ColumnWidths = {
   total: number
 }
 
-export function App({
-  client,
-  host,
-  username,
-  refreshSession,
-  initialTasks,
-  initialDestination,
-  onDestinationChange,
-}: AppProps) {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks ?? [])
+export function App({ connections }: AppProps) {
+  const multiNas = connections.length > 1
+  const hasInitialTasks = connections.every((connection) => connection.initialTasks)
+  const [tasksByNas, setTasksByNas] = useState<Record<string, NasTask[]>>(() =>
+    Object.fromEntries(connections.map((connection) => [connection.name, tagTasks(connection.name, connection.initialTasks ?? [])])),
+  )
+  const [nasStatus, setNasStatus] = useState<Record<string, NasStatus>>({})
+  const [activeNas, setActiveNas] = useState(connections[0].name)
   const [selectedIndex, setSelectedIndex] = useState(0)
   const [status, setStatus] = useState<StatusMessage | null>(null)
-  const [lastRefresh, setLastRefresh] = useState<Date | null>(initialTasks ? new Date() : null)
-  const [loading, setLoading] = useState(!initialTasks)
+  const [lastRefresh, setLastRefresh] = useState<Date | null>(hasInitialTasks ? new Date() : null)
+  const [loading, setLoading] = useState(!hasInitialTasks)
   const [showCreatePrompt, setShowCreatePrompt] = useState(false)
   const [textareaKey, setTextareaKey] = useState(0)
+  const [newTaskDraft, setNewTaskDraft] = useState("")
+  const [newTaskErrors, setNewTaskErrors] = useState<string[]>([])
+  const [pendingLists, setPendingLists] = useState<PendingFileList[]>([])
+  const [detailTask, setDetailTask] = useState<NasTask | null>(null)
+  const [query, setQuery] = useState<TaskQuery>(DEFAULT_TASK_QUERY)
+  const [showSearch, setShowSearch] = useState(false)
+  const [marked, setMarked] = useState<Set<string>>(() => new Set())
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null)
+  const [undoClear, setUndoClear] = useState<{ tasks: NasTask[]; expiresAt: number } | null>(null)
   const [busy, setBusy] = useState(false)
+  const [speedLimits, setSpeedLimits] = useState<SpeedLimits | null>(null)
+  const [showLimits, setShowLimits] = useState(false)
+  const [selectedView, setView] = useState<View>("tasks")
 
   const { width, height } = useTerminalDimensions()
   const textareaRef = useRef<TextareaRenderable | null>(null)
-  const defaultDestinationRef = useRef<string | undefined>(
-    initialDestination ??
-      initialTasks?.map((task) => task.additional?.detail?.destination).find((value): value is string => Boolean(value)),
+  const connectionByName = useMemo(
+    () => new Map(connections.map((connection) => [connection.name, connection])),
+    [connections],
   )
-  useEffect(() => {
-    if (initialDestination) {
-      defaultDestinationRef.current = initialDestination
-    }
-  }, [initialDestination])
+  const active = connectionByName.get(activeNas) ?? connections[0]
+  // DSM 6 has no SYNO.DownloadStation2, so no speed limits, RSS or BT search there.
+  const legacyNas = active.client.usesLegacyTaskApi
+  const views: readonly View[] = legacyNas ? ["tasks"] : VIEWS
+  const view = views.includes(selectedView) ? selectedView : "tasks"
+  const connectionFor = useCallback(
+    (task: NasTask) => connectionByName.get(task.nas) ?? connections[0],
+    [connectionByName, connections],
+  )
+  const tasks = useMemo(() => connections.flatMap((connection) => tasksByNas[connection.name] ?? []), [connections, tasksByNas])
+  // Destinations are per NAS; the ref mirrors state so async callbacks see picks made while they ran.
+  const destinationsRef = useRef<Record<string, string | undefined>>(
+    Object.fromEntries(
+      connections.map((connection) => [
+        connection.name,
+        connection.initialDestination ??
+          connection.initialTasks
+            ?.map((task) => task.additional?.detail?.destination)
+            .find((value): value is string => Boolean(value)),
+      ]),
+    ),
+  )
+  const [destinations, setDestinations] = useState(destinationsRef.current)
+  const destination = destinations[active.name]
+  const [recentDestinations, setRecentDestinations] = useState<Record<string, string[]>>(() =>
+    Object.fromEntries(connections.map((connection) => [connection.name, connection.initialRecentDestinations ?? []])),
+  )
+  const [showDestinationPicker, setShowDestinationPicker] = useState(false)
+  const rememberDestination = useCallback((nas: string, value: string) => {
+    destinationsRef.current = { ...destinationsRef.current, [nas]: value }
+    setDestinations(destinationsRef.current)
+  }, [])
   const viewportHeight = Math.max(height - 2, 16)
+  const scrollOffsetRef = useRef(0)
 
   const columnWidths = useMemo<ColumnWidths>(() => {
-    const separatorCount = 6
+    const separatorCount = multiNas ? 7 : 6
     const innerWidth = Math.max(width - 6, 0)
     const widths: ColumnWidths = {
       indicator: COLUMN_MIN_WIDTHS.indicator,
+      host: multiNas ? COLUMN_MIN_WIDTHS.host : 0,
       title: COLUMN_MIN_WIDTHS.title,
       status: COLUMN_MIN_WIDTHS.status,
       progress: COLUMN_MIN_WIDTHS.progress,
@@ -104,6 +216,7 @@ export function App({
 
     const sumColumns =
       widths.indicator +
+      widths.host +
       widths.title +
       widths.status +
       widths.progress +
@@ -126,6 +239,7 @@ export function App({
     const reduceOrder: (keyof typeof COLUMN_MIN_WIDTHS)[] = [
       "title",
       "destination",
+      "host",
       "speed",
       "size",
       "status",
@@ -145,172 +259,505 @@ export function App({
     }
     widths.total = innerWidth
     return widths
-  }, [width])
+  }, [multiNas, width])
 
   const tableWidth = columnWidths.total
 
   const setInfo = useCallback((text: string) => setStatus({ text, tone: "info" }), [])
   const setError = useCallback((text: string) => setStatus({ text, tone: "error" }), [])
   const setSuccess = useCallback((text: string) => setStatus({ text, tone: "success" }), [])
+  const showMessage = useCallback((text: string, tone: StatusMessage["tone"]) => setStatus({ text, tone }), [])
 
-  const loadTasks = useCallback(
-    async (announce = false) => {
+  const forNas = useCallback((nas: string, text: string) => (multiNas ? `${nas}: ${text}` : text), [multiNas])
+  const updateNasStatus = useCallback((nas: string, next: NasStatus) => {
+    setNasStatus((prev) => ({ ...prev, [nas]: next }))
+  }, [])
+
+  const withSession = useCallback(
+    <T,>(connection: NasConnection, request: () => Promise<T>): Promise<T> =>
+      withSessionRetry(request, connection.refreshSession, () => {
+        setInfo(forNas(connection.name, "Session expired. Re-authenticating…"))
+        updateNasStatus(connection.name, { state: "reauth" })
+      }),
+    [forNas, setInfo, updateNasStatus],
+  )
+
+  const loadNasTasks = useCallback(
+    async (connection: NasConnection): Promise<boolean> => {
       try {
-        setLoading((prev) => prev && !announce)
-        const list = await client.listTasks()
-        setTasks(list)
-        setLastRefresh(new Date())
+        const list = await withSession(connection, () => connection.client.listTasks())
+        setTasksByNas((prev) => ({ ...prev, [connection.name]: tagTasks(connection.name, list) }))
+        updateNasStatus(connection.name, { state: "ok" })
+        connection.onSessionActive?.()
         const fallback = list
           .map((task) => task.additional?.detail?.destination)
           .find((value): value is string => Boolean(value))
-        if (fallback && fallback !== defaultDestinationRef.current) {
-          defaultDestinationRef.current = fallback
-          onDestinationChange?.(fallback)
-        }
-        if (announce) {
-          setInfo("Tasks refreshed.")
+        // Only guess from existing tasks until a destination is known; explicit picks win.
+        if (fallback && !destinationsRef.current[connection.name]) {
+          rememberDestination(connection.name, fallback)
+          connection.onDestinationChange?.(fallback)
         }
+        return true
       } catch (error) {
-        if (error instanceof SynologyRequestError && error.code === 119) {
-          setInfo("Session expired. Re-authenticating…")
-          await refreshSession()
-          return loadTasks(announce)
+        const message = formatError(error, "Unable to load tasks")
+        updateNasStatus(connection.name, { state: "error", message })
+        setError(forNas(connection.name, message))
+        return false
+      }
+    },
+    [forNas, rememberDestination, setError, updateNasStatus, withSession],
+  )
+
+  const loadTasks = useCallback(
+    async (announce = false) => {
+      try {
+        setLoading((prev) => prev && !announce)
+        // One NAS at a time, so two expired sessions never prompt for credentials at once.
+        const results: boolean[] = []
+        for (const connection of connections) {
+          results.push(await loadNasTasks(connection))
+        }
+        if (results.some(Boolean)) {
+          setLastRefresh(new Date())
+        }
+        if (announce && results.every(Boolean)) {
+          setInfo("Tasks refreshed.")
         }
-        setError(formatError(error, "Unable to load tasks"))
       } finally {
         setLoading(false)
       }
     },
-    [client, onDestinationChange, refreshSession, setError, setInfo],
+    [connections, loadNasTasks, setInfo],
   )
 
   useEffect(() => {
-    if (!initialTasks) {
+    if (!hasInitialTasks) {
       void loadTasks()
     }
-  }, [initialTasks, loadTasks])
+  }, [hasInitialTasks, loadTasks])
 
   useEffect(() => {
     const timer = setInterval(() => {
-      if (!showCreatePrompt && !busy) {
+      if (!showCreatePrompt && !busy && pendingLists.length === 0 && !detailTask) {
         void loadTasks()
       }
     }, REFRESH_INTERVAL_MS)
     return () => clearInterval(timer)
-  }, [busy, loadTasks, showCreatePrompt])
+  }, [busy, detailTask, loadTasks, pendingLists.length, showCreatePrompt])
+
+  // Polling pauses while prompts and pickers are open, so check the SID separately before it is needed again.
+  useEffect(() => {
+    const timer = setInterval(() => {
+      void (async () => {
+        for (const connection of connections) {
+          await connection
+            .revalidateSession?.()
+            .catch((error) => setError(forNas(connection.name, formatError(error, "Unable to re-validate session"))))
+        }
+      })()
+    }, SESSION_CHECK_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [connections, forNas, setError])
+
+  const quitting = useRef(false)
+
+  const quit = useCallback(() => {
+    if (quitting.current) {
+      return
+    }
+    quitting.current = true
+    void Promise.all(connections.map((connection) => connection.onExit?.()))
+      .catch(() => undefined)
+      .finally(() => process.exit(0))
+  }, [connections])
+
+  const loadSpeedLimits = useCallback(async () => {
+    if (active.client.usesLegacyTaskApi) {
+      return
+    }
+    try {
+      setSpeedLimits(await withSession(active, () => active.client.getSpeedLimits()))
+    } catch (error) {
+      setError(forNas(active.name, formatError(error, "Unable to load speed limits")))
+    }
+  }, [active, forNas, setError, withSession])
+
+  useEffect(() => {
+    setSpeedLimits(null)
+    void loadSpeedLimits()
+  }, [loadSpeedLimits])
+
+  const visibleTasks = useMemo(() => applyTaskQuery(tasks, query), [query, tasks])
 
   const selectionClamped = useMemo(
-    () => (tasks.length === 0 ? -1 : Math.min(Math.max(selectedIndex, 0), tasks.length - 1)),
-    [selectedIndex, tasks.length],
+    () => (visibleTasks.length === 0 ? -1 : Math.min(Math.max(selectedIndex, 0), visibleTasks.length - 1)),
+    [selectedIndex, visibleTasks.length],
   )
 
   const handleMove = useCallback(
     (delta: number) => {
-      if (tasks.length === 0) return
+      if (visibleTasks.length === 0) return
       setSelectedIndex((prev) => {
         const next = prev + delta
         if (next < 0) return 0
-        if (next >= tasks.length) return tasks.length - 1
+        if (next >= visibleTasks.length) return visibleTasks.length - 1
         return next
       })
     },
-    [tasks.length],
+    [visibleTasks.length],
   )
 
+  const updateQuery = useCallback((partial: Partial<TaskQuery>) => {
+    setQuery((prev) => ({ ...prev, ...partial }))
+    setSelectedIndex(0)
+  }, [])
+
+  const toggleSort = useCallback((sort: SortKey) => {
+    setQuery((prev) =>
+      prev.sort === sort ? { ...prev, descending: !prev.descending } : { ...prev, sort, descending: true },
+    )
+    setSelectedIndex(0)
+  }, [])
+
   const performAction = useCallback(
     async (action: () => Promise<void>, successMessage: string) => {
-      if (selectionClamped === -1) return
       setBusy(true)
       try {
         await action()
         setSuccess(successMessage)
         await loadTasks()
       } catch (error) {
-        if (error instanceof SynologyRequestError && error.code === 119) {
-          setInfo("Session expired. Re-authenticating…")
-          await refreshSession()
-          await action()
-          setSuccess(successMessage)
-          await loadTasks()
-          return
+        setError(formatError(error, "Action failed"))
+      } finally {
+        setBusy(false)
+      }
+    },
+    [loadTasks, setError, setSuccess],
+  )
+
+  const selectedTask = selectionClamped >= 0 ? visibleTasks[selectionClamped] : undefined
+  const markedTasks = useMemo(() => tasks.filter((task) => marked.has(taskKey(task))), [marked, tasks])
+
+  const performBulkAction = useCallback(
+    async (targets: NasTask[], run: (client: SynologyClient, ids: string[]) => Promise<FailedTask[]>, verb: string) => {
+      setBusy(true)
+      try {
+        const failed: { task: NasTask; error: number }[] = []
+        for (const connection of connections) {
+          const group = targets.filter((task) => task.nas === connection.name)
+          if (group.length === 0) continue
+          const results = await withSession(connection, () => run(connection.client, group.map((task) => task.id)))
+          for (const failure of results) {
+            const task = group.find((entry) => entry.id === failure.id)
+            if (task) failed.push({ task, error: failure.error })
+          }
+        }
+        // Failed tasks stay marked so the action can be retried.
+        setMarked(new Set(failed.map((failure) => taskKey(failure.task))))
+        const count = targets.length
+        if (failed.length === 0) {
+          setSuccess(`${verb} ${count} task${count > 1 ? "s" : ""}.`)
+        } else {
+          const details = failed
+            .map((failure) => `${forNas(failure.task.nas, failure.task.title)} (${describeTaskError(failure.error)})`)
+            .join(", ")
+          setError(`${verb} ${count - failed.length}/${count} tasks. Failed: ${details}`)
         }
+        await loadTasks()
+      } catch (error) {
         setError(formatError(error, "Action failed"))
       } finally {
         setBusy(false)
       }
     },
-    [loadTasks, refreshSession, selectionClamped, setError, setInfo, setSuccess],
+    [connections, forNas, loadTasks, setError, setSuccess, withSession],
   )
 
-  const selectedTask = selectionClamped >= 0 ? tasks[selectionClamped] : undefined
+  const toggleMark = useCallback(() => {
+    if (!selectedTask) return
+    const key = taskKey(selectedTask)
+    setMarked((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+    handleMove(1)
+  }, [handleMove, selectedTask])
+
+  const toggleMarkAllVisible = useCallback(() => {
+    setMarked((prev) => {
+      const allMarked = visibleTasks.length > 0 && visibleTasks.every((task) => prev.has(taskKey(task)))
+      const next = new Set(prev)
+      for (const task of visibleTasks) {
+        if (allMarked) {
+          next.delete(taskKey(task))
+        } else {
+          next.add(taskKey(task))
+        }
+      }
+      return next
+    })
+  }, [visibleTasks])
 
   const togglePause = useCallback(() => {
+    if (markedTasks.length > 0) {
+      if (markedTasks.every((task) => task.status === 3)) {
+        void performBulkAction(markedTasks, (client, ids) => client.resumeTasks(ids), "Resumed")
+      } else {
+        void performBulkAction(markedTasks, (client, ids) => client.pauseTasks(ids), "Paused")
+      }
+      return
+    }
     if (!selectedTask) return
     const { id, status } = selectedTask
+    const connection = connectionFor(selectedTask)
     if (status === 2) {
-      void performAction(() => client.pauseTask(id), "Task paused.")
+      void performAction(() => withSession(connection, () => connection.client.pauseTask(id)), "Task paused.")
     } else {
-      void performAction(() => client.resumeTask(id), "Task resumed.")
+      void performAction(() => withSession(connection, () => connection.client.resumeTask(id)), "Task resumed.")
     }
-  }, [client, performAction, selectedTask])
+  }, [connectionFor, markedTasks, performAction, performBulkAction, selectedTask, withSession])
 
-  const handleDelete = useCallback(() => {
-    if (!selectedTask) return
-    void performAction(() => client.deleteTask(selectedTask.id, false), "Task deleted.")
-  }, [client, performAction, selectedTask])
+  const handleDelete = useCallback(
+    (force = false) => {
+      const targets = markedTasks.length > 0 ? markedTasks : selectedTask ? [selectedTask] : []
+      if (targets.length === 0) return
+      const label = targets.length > 1 ? `${targets.length} tasks` : `"${targets[0].title}"`
+      const preview = targets
+        .slice(0, 3)
+        .map((task) => task.title)
+        .join(", ")
+      setPendingConfirm({
+        message: force
+          ? `Delete ${label} and force-complete? Downloaded data is moved to the destination.`
+          : `Delete ${label}? Incomplete data is discarded.`,
+        detail: targets.length > 1 ? `${preview}${targets.length > 3 ? ", …" : ""}` : undefined,
+        onConfirm: () => {
+          if (markedTasks.length > 0) {
+            void performBulkAction(markedTasks, (client, ids) => client.deleteTasks(ids, force), "Deleted")
+          } else {
+            const connection = connectionFor(targets[0])
+            void performAction(
+              () => withSession(connection, () => connection.client.deleteTask(targets[0].id, force)),
+              "Task deleted.",
+            )
+          }
+        },
+      })
+    },
+    [connectionFor, markedTasks, performAction, performBulkAction, selectedTask, withSession],
+  )
 
   const handleClear = useCallback(() => {
-    void performAction(() => client.clearCompleted(), "Cleared completed tasks.")
-  }, [client, performAction])
+    const finished = tasks.filter((task) => task.status === 5)
+    if (finished.length === 0) {
+      setInfo("No finished tasks to clear.")
+      return
+    }
+    const seconds = UNDO_WINDOW_MS / 1000
+    setPendingConfirm({
+      message: `Clear ${finished.length} finished task${finished.length > 1 ? "s" : ""}?`,
+      detail: `You can undo with u for ${seconds} s; tasks are re-added from their original URI.`,
+      onConfirm: () => {
+        void performAction(async () => {
+          // Delete exactly the tasks shown in the prompt: DSM's "clear finished" would also take tasks that
+          // finished since, and those would be missing from the undo list.
+          const failedKeys = new Set<string>()
+          for (const connection of connections.filter((entry) => finished.some((task) => task.nas === entry.name))) {
+            const ids = finished.filter((task) => task.nas === connection.name).map((task) => task.id)
+            const failed = await withSession(connection, () => connection.client.deleteTasks(ids))
+            failed.forEach((failure) => failedKeys.add(`${connection.name}/${failure.id}`))
+          }
+          setUndoClear({ tasks: finished.filter((task) => !failedKeys.has(taskKey(task))), expiresAt: Date.now() + UNDO_WINDOW_MS })
+          if (failedKeys.size > 0) {
+            throw new Error(`${failedKeys.size} of ${finished.length} finished task(s) could not be cleared.`)
+          }
+        }, `Cleared ${finished.length} finished task${finished.length > 1 ? "s" : ""}. Press u within ${seconds} s to undo.`)
+      },
+    })
+  }, [connections, performAction, setInfo, tasks, withSession])
+
+  useEffect(() => {
+    if (!undoClear) return
+    const timer = setTimeout(() => setUndoClear(null), Math.max(undoClear.expiresAt - Date.now(), 0))
+    return () => clearTimeout(timer)
+  }, [undoClear])
 
-  const handleCreate = useCallback(async () => {
-    const urls = splitUrls(getNewTaskInput())
-    if (urls.length === 0) {
-      setError("Provide at least one URL.")
+  const handleUndoClear = useCallback(() => {
+    if (!undoClear) return
+    setUndoClear(null)
+    const restorable = undoClear.tasks.filter((task) => {
+      const uri = task.additional?.detail?.uri
+      return Boolean(uri) && connectionFor(task).client.validateUrls([uri!])[0].valid
+    })
+    const skipped = undoClear.tasks.length - restorable.length
+    if (restorable.length === 0) {
+      setError("None of the cleared tasks had a URI that can be re-added.")
       return
     }
-    const destination = defaultDestinationRef.current
-    setBusy(true)
-    try {
-      await client.createTasksFromUrls(urls, destination)
-      if (!defaultDestinationRef.current && destination) {
-        defaultDestinationRef.current = destination
-        onDestinationChange?.(destination)
-      }
-      setSuccess(urls.length > 1 ? `Created ${urls.length} tasks.` : "Task created.")
-      setShowCreatePrompt(false)
-      resetNewTaskInput()
-      await loadTasks()
-    } catch (error) {
-      if (error instanceof SynologyRequestError && error.code === 119) {
-        await refreshSession()
-        await client.createTasksFromUrls(urls, destination)
-        if (!defaultDestinationRef.current && destination) {
-          defaultDestinationRef.current = destination
-          onDestinationChange?.(destination)
+    void performAction(
+      async () => {
+        for (const task of restorable) {
+          const detail = task.additional?.detail
+          const connection = connectionFor(task)
+          await withSession(connection, () =>
+            connection.client.createTaskFromUrl(detail!.uri!, detail?.destination ?? destinationsRef.current[task.nas]),
+          )
         }
-        setSuccess(urls.length > 1 ? `Created ${urls.length} tasks.` : "Task created.")
+      },
+      `Restored ${restorable.length} task${restorable.length > 1 ? "s" : ""}${
+        skipped > 0 ? `; ${skipped} had no re-addable URI (e.g. uploaded files)` : ""
+      }.`,
+    )
+  }, [connectionFor, performAction, setError, undoClear, withSession])
+
+  const handleCreate = useCallback(async (pickFiles = false) => {
+    const connection = active
+    const { client } = connection
+    const parsed = parseNewTaskInput(getNewTaskInput())
+    const results = client.validateUrls(parsed.urls)
+    const urls = results.flatMap((result) => (result.valid ? [result.uri] : []))
+    const invalid = results.filter((result) => !result.valid)
+    const files = parsed.files
+    const count = urls.length + files.length
+    if (count === 0 && invalid.length === 0) {
+      setError("Provide at least one URL or file path.")
+      return
+    }
+    const destination = destinationsRef.current[connection.name]
+    const prepared: PendingFileList[] = []
+    const finish = async () => {
+      if (!destinationsRef.current[connection.name] && destination) {
+        rememberDestination(connection.name, destination)
+        connection.onDestinationChange?.(destination)
+      }
+      if (invalid.length > 0) {
+        // Keep only the rejected lines in the prompt so they can be fixed and resubmitted.
+        setNewTaskErrors(invalid.map((result) => `${result.input}: ${result.valid ? "" : result.error}`))
+        resetNewTaskInput(invalid.map((result) => result.input).join("\n"))
+        const created = count > 0 ? forNas(connection.name, `Created ${count} task${count > 1 ? "s" : ""}; `) : ""
+        setError(`${created}${invalid.length} invalid URL${invalid.length > 1 ? "s" : ""}.`)
+      } else {
+        setSuccess(
+          forNas(connection.name, pickFiles ? "Pick the files to download." : count > 1 ? `Created ${count} tasks.` : "Task created."),
+        )
         setShowCreatePrompt(false)
         resetNewTaskInput()
+      }
+      if (prepared.length > 0) {
+        setPendingLists((prev) => [...prev, ...prepared])
+      } else if (count > 0) {
         await loadTasks()
+      }
+    }
+    // Each request is retried on its own, so re-authenticating midway never creates the earlier inputs twice.
+    const createAll = async () => {
+      if (pickFiles) {
+        const listIds: string[] = []
+        try {
+          for (const url of urls) {
+            listIds.push(...(await withSession(connection, () => client.prepareTaskFromUrl(url, destination))))
+          }
+          for (const file of files) {
+            listIds.push(...(await withSession(connection, () => client.prepareTaskFromFile(file, destination))))
+          }
+          for (const listId of listIds) {
+            prepared.push({ nas: connection.name, listId, list: await withSession(connection, () => client.getTaskList(listId)) })
+          }
+        } catch (error) {
+          // Lists already prepared on the NAS would otherwise stay there with nobody to confirm or discard them.
+          prepared.length = 0
+          await Promise.allSettled(listIds.map((listId) => client.discardTaskList(listId)))
+          throw error
+        }
         return
       }
-      setError(formatError(error, "Failed to create task"))
+      for (const url of urls) {
+        await withSession(connection, () => client.createTaskFromUrl(url, destination))
+      }
+      for (const file of files) {
+        await withSession(connection, () => client.createTaskFromFile(file, destination))
+      }
+    }
+    setBusy(true)
+    try {
+      await createAll()
+      await finish()
+    } catch (error) {
+      setError(forNas(connection.name, formatError(error, "Failed to create task")))
     } finally {
       setBusy(false)
     }
-  }, [client, loadTasks, onDestinationChange, refreshSession, setError, setSuccess])
+  }, [active, forNas, loadTasks, rememberDestination, setError, setSuccess, withSession])
+
+  const resolvePendingList = useCallback(
+    async (selected: number[] | null) => {
+      const pending = pendingLists[0]
+      if (!pending || busy) return
+      const connection = connectionByName.get(pending.nas) ?? connections[0]
+      const destination = destinationsRef.current[pending.nas]
+      const resolve = () =>
+        selected
+          ? connection.client.downloadTaskList(pending.listId, selected, destination)
+          : connection.client.discardTaskList(pending.listId)
+      const successMessage = selected ? `Queued ${selected.length} file(s).` : "Discarded file list."
+      setBusy(true)
+      try {
+        await withSession(connection, resolve)
+        setPendingLists((prev) => prev.filter((item) => item.listId !== pending.listId))
+        setSuccess(successMessage)
+        await loadTasks()
+      } catch (error) {
+        setError(formatError(error, "Failed to start download"))
+      } finally {
+        setBusy(false)
+      }
+    },
+    [busy, connectionByName, connections, loadTasks, pendingLists, setError, setSuccess, withSession],
+  )
 
   useKeyboard((key) => {
     if (key.name === "c" && key.ctrl) {
-      process.exit(0)
+      quit()
+      return
+    }
+    if (pendingLists.length > 0 || detailTask || pendingConfirm || view !== "tasks") {
+      // FilePicker, TaskDetail, ConfirmDialog and the other views own the keyboard while they are open.
+      return
+    }
+    if (showSearch) {
+      if (key.name === "escape") {
+        updateQuery({ search: "" })
+        setShowSearch(false)
+      } else if (key.name === "return" || key.name === "up" || key.name === "down") {
+        setShowSearch(false)
+      }
+      return
+    }
+    if (showDestinationPicker || showLimits) {
+      // DestinationPicker and SpeedLimitsPanel own the keyboard while they are open.
+      return
     }
     if (showCreatePrompt) {
+      if (key.name === "o" && key.ctrl) {
+        setShowDestinationPicker(true)
+        return
+      }
+      if (key.name === "n" && key.ctrl && multiNas) {
+        cycleActiveNas()
+        return
+      }
       if (key.name === "escape") {
         setShowCreatePrompt(false)
         resetNewTaskInput()
       } else if (key.name === "return" && (key.ctrl || key.meta || key.option)) {
         void handleCreate()
+      } else if (key.name === "f" && key.ctrl) {
+        void handleCreate(true)
       }
       return
     }
@@ -325,7 +772,10 @@ export function App({
         togglePause()
         break
       case "d":
-        handleDelete()
+        handleDelete(key.shift)
+        break
+      case "u":
+        handleUndoClear()
         break
       case "c":
         handleClear()
@@ -333,21 +783,106 @@ export function App({
       case "r":
         void loadTasks(true)
         break
+      case "return":
+        if (selectedTask) {
+          setDetailTask(selectedTask)
+        }
+        break
       case "n":
         resetNewTaskInput()
         setShowCreatePrompt(true)
         break
+      case "/":
+        setShowSearch(true)
+        break
+      case "f":
+        updateQuery({ status: STATUS_FILTERS[(STATUS_FILTERS.indexOf(query.status) + 1) % STATUS_FILTERS.length] })
+        break
+      case "1":
+      case "2":
+      case "3":
+      case "4":
+        toggleSort(SORT_KEYS[Number(key.name)])
+        break
+      case "0":
+        updateQuery({ sort: "default" })
+        break
+      case "l":
+        if (legacyNas) {
+          setInfo(forNas(active.name, "Speed limits require Download Station on DSM 7."))
+          break
+        }
+        setShowLimits(true)
+        void loadSpeedLimits()
+        break
+      case "m":
+        toggleMark()
+        break
+      case "a":
+        toggleMarkAllVisible()
+        break
+      case "escape":
+        if (query.search) {
+          updateQuery({ search: "" })
+        } else if (marked.size > 0) {
+          setMarked(new Set())
+        }
+        break
+      case "tab":
+        switchView()
+        break
+      case "h":
+        if (multiNas) {
+          cycleActiveNas()
+        }
+        break
       case "q":
-        process.exit(0)
+        quit()
         break
       default:
         break
     }
   })
 
-  const headerText = `Connected to ${host} as ${username}`
+  const switchView = () => {
+    setView((prev) => views[(views.indexOf(prev) + 1) % views.length])
+  }
+  const cycleActiveNas = () => {
+    const next = connections[(connections.findIndex((connection) => connection.name === activeNas) + 1) % connections.length]
+    setActiveNas(next.name)
+    setInfo(`New tasks, RSS, search and speed limits now use ${next.name}.`)
+  }
+  const viewTabs = [
+    views.map((entry) => (entry === view ? `[${VIEW_LABELS[entry]}]` : ` ${VIEW_LABELS[entry]} `)).join(" "),
+    ...(multiNas ? [`NAS: ${active.name} (h to switch)`] : []),
+  ].join("   ")
+  const headerText = `Connected to ${active.host} as ${active.username}`
+  const nasLines = connections.map((connection) => {
+    const state = nasStatus[connection.name] ?? { state: "ok" }
+    const detail =
+      state.state === "error"
+        ? `error: ${state.message ?? "unknown"}`
+        : state.state === "reauth"
+          ? "re-authenticating…"
+          : `${tasksByNas[connection.name]?.length ?? 0} tasks`
+    return {
+      name: connection.name,
+      text: `${connection.name === active.name ? "▶" : " "} ${connection.name} · ${connection.username}@${connection.host} · ${detail}`,
+      fg: state.state === "error" ? "red" : state.state === "reauth" ? "#ffd369" : "#cdd6f4",
+    }
+  })
+  const totalDownload = tasks.reduce((sum, task) => sum + (task.additional?.transfer?.speed_download ?? 0), 0)
+  const totalUpload = tasks.reduce((sum, task) => sum + (task.additional?.transfer?.speed_upload ?? 0), 0)
+  const speedText = [
+    `↓ ${formatSpeed(totalDownload)}${speedLimits ? ` / ${formatRate(speedLimits.btDownload)}` : ""}`,
+    `↑ ${formatSpeed(totalUpload)}${speedLimits ? ` / ${formatRate(speedLimits.btUpload)}` : ""}`,
+    ...(speedLimits?.scheduler.enabled ? ["alt. speed scheduled"] : []),
+  ].join("  ")
+  const limitTargets = (markedTasks.length > 0 ? markedTasks : selectedTask ? [selectedTask] : []).filter(
+    (task) => task.type === "bt" && task.nas === active.name,
+  )
   const lastRefreshText = lastRefresh ? `Last refresh: ${lastRefresh.toLocaleTimeString()}` : "Fetching tasks…"
-  const instructions = "Keys: ↑/↓ move · space pause/resume · n new task · d delete · c clear finished · r refresh · q quit"
+  const instructions = `Keys: ↑/↓ move · Enter details · space pause/resume · n new task · d delete · D delete+force · c clear finished · u undo clear · m mark · a mark all${legacyNas ? "" : " · l speed limits · Tab views"}${multiNas ? " · h switch NAS" : ""} · / search · f filter · 1-4 sort · r refresh · q quit`
   const banner = [
     "███████╗██╗   ██╗███╗   ██╗ ██████╗ ██╗      ██████╗  ██████╗██╗   ██╗    ██████╗ ███████╗",
     "██╔════╝╚██╗ ██╔╝████╗  ██║██╔═══██╗██║     ██╔═══██╗██╔════╝╚██╗ ██╔╝    ██╔══██╗██╔════╝",
@@ -356,8 +891,35 @@ export function App({
     "███████║   ██║   ██║ ╚████║╚██████╔╝███████╗╚██████╔╝╚██████╔╝  ██║       ██████╔╝███████║",
     "╚══════╝   ╚═╝   ╚═╝  ╚═══╝ ╚═════╝ ╚══════╝ ╚═════╝  ╚═════╝   ╚═╝       ╚═════╝ ╚══════╝",
   ]
+  const queryParts = [
+    markedTasks.length > 0 ? `${markedTasks.length} marked` : undefined,
+    query.search ? `search "${query.search}"` : undefined,
+    query.status !== "all" ? `status ${query.status}` : undefined,
+    query.sort !== "default" ? `sort ${query.sort} ${query.descending ? "↓" : "↑"}` : undefined,
+  ].filter((part): part is string => Boolean(part))
+  // Banner, view tabs, borders, header and footer take roughly 18 rows; the create prompt takes the rest.
+  // Past three NAS the per-host header lines grow taller than the banner.
+  const headerOverflow = multiNas ? Math.max(connections.length - 3, 0) : 0
+  const tableRows = Math.max(viewportHeight - 18 - headerOverflow - (showCreatePrompt ? 14 : 0) - (showSearch ? 3 : 0), 3)
+  const scrollOffset = clampScrollOffset(scrollOffsetRef.current, selectionClamped, tableRows, visibleTasks.length)
+  scrollOffsetRef.current = scrollOffset
+  const rangeText =
+    visibleTasks.length > tableRows
+      ? `${scrollOffset + 1}–${Math.min(scrollOffset + tableRows, visibleTasks.length)} of ${visibleTasks.length}`
+      : `${visibleTasks.length} of ${tasks.length}`
+  const handleDestinationPicked = (selected: string) => {
+    rememberDestination(active.name, selected)
+    setRecentDestinations((prev) => ({ ...prev, [active.name]: addRecentDestination(prev[active.name], selected) }))
+    setShowDestinationPicker(false)
+    active.onDestinationSelected?.(selected)
+    setInfo(forNas(active.name, `Destination set to ${selected}.`))
+  }
   const getNewTaskInput = () => textareaRef.current?.plainText ?? ""
-  const resetNewTaskInput = () => {
+  const resetNewTaskInput = (draft = "") => {
+    setNewTaskDraft(draft)
+    if (!draft) {
+      setNewTaskErrors([])
+    }
     setTextareaKey((key) => key + 1)
   }
 
@@ -372,7 +934,16 @@ export function App({
           ))}
         </box>
         <box flexDirection="column" alignItems="flex-end" style={{ gap: 0 }}>
-          <text fg="#cdd6f4">{headerText}</text>
+          {multiNas ? (
+            nasLines.map((line) => (
+              <text key={`nas-${line.name}`} fg={line.fg}>
+                {line.text}
+              </text>
+            ))
+          ) : (
+            <text fg="#cdd6f4">{headerText}</text>
+          )}
+          <text fg="#a6e3a1">{speedText}</text>
           <text>{lastRefreshText}</text>
           {status && (
             <text style={{ fg: status.tone === "error" ? "red" : status.tone === "success" ? "green" : "#999999" }}>
@@ -383,50 +954,177 @@ export function App({
       </box>
 
       <box flexDirection="column" style={{ flexGrow: 1, gap: 1, minHeight: 0 }}>
-        <box flexDirection="column" style={{ border: true, padding: 1, flexGrow: 1, minHeight: 0 }}>
-          <text>
-            <strong fg="#88c0d0">{formatHeader(columnWidths, tableWidth)}</strong>
-          </text>
-          {loading && <text>Loading…</text>}
-          {!loading && tasks.length === 0 && <text>No tasks found.</text>}
-          {!loading &&
-            tasks.map((task, index) => {
-              const isSelected = index === selectionClamped
-              return (
-                <box
-                  key={task.id}
-                  style={{
-                    flexDirection: "row",
-                    justifyContent: "flex-start",
-                    backgroundColor: isSelected ? "#2F3C51" : "#1B1D2A",
-                    width: columnWidths.total,
-                  }}
-                >
-                  <text style={isSelected ? { fg: "#E7F6F2" } : undefined}>
-                    {renderRow(task, columnWidths, tableWidth, isSelected)}
-                  </text>
-                </box>
-              )
-            })}
-        </box>
+        {!detailTask && <text fg="#88c0d0">{viewTabs}</text>}
+        {detailTask ? (
+          <TaskDetail
+            key={taskKey(detailTask)}
+            client={connectionFor(detailTask).client}
+            task={detailTask}
+            refreshSession={connectionFor(detailTask).refreshSession}
+            width={Math.max(width - 8, 20)}
+            maxRows={Math.max(height - 22, 5)}
+            onClose={() => setDetailTask(null)}
+          />
+        ) : view === "rss" ? (
+          <RssView
+            key={`rss-${active.name}`}
+            client={active.client}
+            destination={destination}
+            refreshSession={active.refreshSession}
+            width={Math.max(width - 8, 40)}
+            maxRows={Math.max(tableRows, 3)}
+            onMessage={showMessage}
+            onTaskQueued={() => void loadTasks()}
+            onSwitchView={switchView}
+          />
+        ) : view === "search" ? (
+          <SearchView
+            key={`search-${active.name}`}
+            client={active.client}
+            destination={destination}
+            refreshSession={active.refreshSession}
+            width={Math.max(width - 8, 40)}
+            maxRows={Math.max(tableRows, 3)}
+            onMessage={showMessage}
+            onTaskQueued={() => void loadTasks()}
+            onSwitchView={switchView}
+          />
+        ) : (
+          <box flexDirection="column" style={{ border: true, padding: 1, flexGrow: 1, minHeight: 0 }}>
+            {showSearch && (
+              <box flexDirection="row" style={{ gap: 1, height: 1 }}>
+                <text fg="#ffd369">/</text>
+                <input
+                  value={query.search}
+                  placeholder="Search title or destination"
+                  onInput={(value) => updateQuery({ search: value })}
+                  style={{ flexGrow: 1 }}
+                  focused
+                />
+              </box>
+            )}
+            <text fg="#999999">{[rangeText, ...queryParts].join(" · ")}</text>
+            <text>
+              <strong fg="#88c0d0">{formatHeader(columnWidths, tableWidth)}</strong>
+            </text>
+            {loading && <text>Loading…</text>}
+            {!loading && visibleTasks.length === 0 && (
+              <text>{tasks.length === 0 ? "No tasks found." : "No tasks match the current filter."}</text>
+            )}
+            {!loading &&
+              visibleTasks.slice(scrollOffset, scrollOffset + tableRows).map((task, offset) => {
+                const index = scrollOffset + offset
+                const isSelected = index === selectionClamped
+                return (
+                  <box
+                    key={taskKey(task)}
+                    style={{
+                      flexDirection: "row",
+                      justifyContent: "flex-start",
+                      backgroundColor: isSelected ? "#2F3C51" : "#1B1D2A",
+                      width: columnWidths.total,
+                    }}
+                  >
+                    <text style={isSelected ? { fg: "#E7F6F2" } : undefined}>
+                      {renderRow(task, columnWidths, tableWidth, isSelected, marked.has(taskKey(task)))}
+                    </text>
+                  </box>
+                )
+              })}
+          </box>
+        )}
       </box>
 
+      {pendingConfirm && (
+        <ConfirmDialog
+          message={pendingConfirm.message}
+          detail={pendingConfirm.detail}
+          onConfirm={() => {
+            setPendingConfirm(null)
+            pendingConfirm.onConfirm()
+          }}
+          onCancel={() => {
+            setPendingConfirm(null)
+            setInfo("Cancelled.")
+          }}
+        />
+      )}
+
+      {pendingLists.length > 0 && (
+        <FilePicker
+          key={pendingLists[0].listId}
+          list={pendingLists[0].list}
+          maxRows={Math.max(Math.min(pendingLists[0].list.files.length, height - 20), 3)}
+          width={Math.max(width - 6, 20)}
+          onConfirm={(selected) => void resolvePendingList(selected)}
+          onCancel={() => void resolvePendingList(null)}
+        />
+      )}
+
+      {showDestinationPicker && (
+        <DestinationPicker
+          client={active.client}
+          current={destination}
+          recent={recentDestinations[active.name] ?? []}
+          refreshSession={active.refreshSession}
+          maxRows={Math.max(height - 26, 5)}
+          onSelect={handleDestinationPicked}
+          onCancel={() => setShowDestinationPicker(false)}
+        />
+      )}
+
+      {showLimits && (
+        <SpeedLimitsPanel
+          client={active.client}
+          limits={speedLimits}
+          taskIds={limitTargets.map((task) => task.id)}
+          taskLabel={limitTargets.length === 1 ? limitTargets[0].title : undefined}
+          refreshSession={active.refreshSession}
+          onSaved={(message) => {
+            setSuccess(message)
+            void loadSpeedLimits()
+          }}
+          onClose={() => setShowLimits(false)}
+        />
+      )}
+
       {showCreatePrompt && (
-      <box flexDirection="column" style={{ border: true, padding: 1, gap: 1, maxHeight: 14 }}>
-        <text>Enter download URL(s):</text>
+      <box
+        flexDirection="column"
+        style={{ border: true, padding: 1, gap: 1, maxHeight: 14 + Math.min(newTaskErrors.length, MAX_INLINE_ERRORS + 1) }}
+      >
+        <text>Enter download URL(s) or paths to .torrent/.nzb files (one path per line):</text>
         <textarea
           key={textareaKey}
           ref={textareaRef}
-          placeholder={"https://example.com/file.iso"}
+          initialValue={newTaskDraft}
+          placeholder={"https://example.com/file.iso\n~/Downloads/ubuntu.torrent"}
           wrapMode="word"
           style={{ minHeight: 6, maxHeight: 10 }}
-          focused
+          focused={!showDestinationPicker}
         />
-          <text style={{ fg: "#999999" }}>Press Option+Enter to create or Esc to cancel.</text>
+        <text fg="#89b4fa">
+          {`${multiNas ? `NAS: ${active.name} (Ctrl+N to switch) · ` : ""}Destination: ${destination ?? "(NAS default)"}`}
+        </text>
+        {newTaskErrors.length > 0 && (
+          <box flexDirection="column" style={{ gap: 0 }}>
+            {newTaskErrors.slice(0, MAX_INLINE_ERRORS).map((message, index) => (
+              <text key={`url-error-${index}`} fg="red">
+                {message}
+              </text>
+            ))}
+            {newTaskErrors.length > MAX_INLINE_ERRORS && (
+              <text fg="red">{`…and ${newTaskErrors.length - MAX_INLINE_ERRORS} more`}</text>
+            )}
+          </box>
+        )}
+          <text style={{ fg: "#999999" }}>
+            Press Option+Enter to create, Ctrl+F to pick files first, Ctrl+O to change destination, or Esc to cancel.
+          </text>
       </box>
       )}
 
-      <text style={{ marginTop: "auto" }}>{instructions}</text>
+      {view === "tasks" && <text style={{ marginTop: "auto" }}>{instructions}</text>}
     </box>
   )
 }
@@ -434,6 +1132,7 @@ export function App({
 function formatHeader(widths: ColumnWidths, totalWidth: number): string {
   const row = [
     "".padEnd(widths.indicator),
+    ...(widths.host > 0 ? ["Host".padEnd(widths.host)] : []),
     "Title".padEnd(widths.title),
     "Status".padEnd(widths.status),
     "Progress".padEnd(widths.progress),
@@ -444,20 +1143,21 @@ function formatHeader(widths: ColumnWidths, totalWidth: number): string {
   return padRow(row, totalWidth)
 }
 
-function renderRow(task: Task, widths: ColumnWidths, totalWidth: number, isSelected: boolean) {
+function renderRow(task: NasTask, widths: ColumnWidths, totalWidth: number, isSelected: boolean, isMarked: boolean) {
   const statusText = describeStatus(task.status)
   const progress = deriveProgress(task)
   const transfer = task.additional?.transfer
   const destination = task.additional?.detail?.destination ?? "-"
-  const indicator = isSelected ? "➤" : " "
+  const indicator = `${isSelected ? "➤" : " "}${isMarked ? "●" : " "}`
   const segments = [
     { text: indicator.padEnd(widths.indicator), fg: isSelected ? undefined : "#4ee1c1" },
-    { text: truncate(task.title, widths.title), fg: isSelected ? undefined : "#8be9fd" },
+    ...(widths.host > 0 ? [{ text: fitColumn(task.nas, widths.host), fg: isSelected ? undefined : "#bd93f9" }] : []),
+    { text: fitColumn(task.title, widths.title), fg: isSelected ? undefined : "#8be9fd" },
     { text: statusText.padEnd(widths.status), fg: isSelected ? undefined : getStatusColor(task.status) },
     { text: formatPercent(progress).padEnd(widths.progress), fg: isSelected ? undefined : "#ffd369" },
     { text: formatSpeed(transfer?.speed_download || transfer?.speed_upload).padEnd(widths.speed), fg: isSelected ? undefined : "#a6e3a1" },
     { text: formatBytes(task.size).padEnd(widths.size), fg: isSelected ? undefined : "#f1fa8c" },
-    { text: truncate(destination, widths.destination), fg: isSelected ? undefined : "#89b4fa" },
+    { text: fitColumn(destination, widths.destination), fg: isSelected ? undefined : "#89b4fa" },
   ]
 
   const rawSegments = segments.map((segment, index) =>
@@ -477,32 +1177,12 @@ function renderRow(task: Task, widths: ColumnWidths, totalWidth: number, isSelec
   })
 }
 
-function truncate(text: string, width: number): string {
-  if (text.length <= width) {
-    return text.padEnd(width)
-  }
-  return `${text.slice(0, Math.max(0, width - 1))}…`
+function tagTasks(nas: string, tasks: Task[]): NasTask[] {
+  return tasks.map((task) => ({ ...task, nas }))
 }
 
-function describeStatus(status: Task["status"]): string {
-  const map: Record<number, string> = {
-    1: "waiting",
-    2: "downloading",
-    3: "paused",
-    4: "finishing",
-    5: "finished",
-    6: "hash check",
-    7: "pre-seeding",
-    8: "seeding",
-    9: "filehost",
-    10: "extracting",
-    11: "preprocessing",
-    12: "verify",
-    13: "downloaded",
-    14: "postprocess",
-    15: "captcha",
-  }
-  return map[status] ?? (status >= 101 ? `error ${status}` : `status ${status}`)
+function taskKey(task: NasTask): string {
+  return `${task.nas}/${task.id}`
 }
 
 function formatError(error: unknown, fallback: string): string {
@@ -540,6 +1220,39 @@ function getStatusColor(status: Task["status"]): string {
   }
 }
 
+function parseNewTaskInput(input: string): { urls: string[]; files: string[] } {
+  const urls: string[] = []
+  const files: string[] = []
+  for (const line of sanitizeInput(input).split("\n")) {
+    const filePath = parseLocalFilePath(line)
+    if (filePath) {
+      files.push(filePath)
+    } else {
+      urls.push(...splitUrls(line))
+    }
+  }
+  return { urls, files }
+}
+
+// Paths may contain spaces, so a line naming a local .torrent/.nzb is taken whole.
+// Terminals quote or backslash-escape dropped paths; both forms are unwrapped.
+function parseLocalFilePath(line: string): string | undefined {
+  let candidate = line.trim().replace(/^(['"])(.*)\1$/, "$2")
+  if (candidate.startsWith("file://")) {
+    candidate = decodeURIComponent(candidate.slice("file://".length))
+  } else if (/^[a-z][a-z0-9+.-]*:/i.test(candidate)) {
+    return undefined
+  }
+  if (!/\.(torrent|nzb)$/i.test(candidate)) {
+    return undefined
+  }
+  candidate = candidate.replace(/\\(.)/g, "$1")
+  if (candidate === "~" || candidate.startsWith("~/")) {
+    candidate = path.join(os.homedir(), candidate.slice(1))
+  }
+  return path.resolve(candidate)
+}
+
 function splitUrls(input: string): string[] {
   return sanitizeInput(input)
     .split(/\s+/)
@@ -0,0 +1,27 @@
+/** @jsxImportSource @opentui/react */
+import { useKeyboard } from "@opentui/react"
+
+interface ConfirmDialogProps {
+  message: string
+  detail?: string
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+export function ConfirmDialog({ message, detail, onConfirm, onCancel }: ConfirmDialogProps) {
+  useKeyboard((key) => {
+    if (key.name === "y" || key.name === "return") {
+      onConfirm()
+    } else if (key.name === "n" || key.name === "escape" || key.name === "q") {
+      onCancel()
+    }
+  })
+
+  return (
+    <box flexDirection="column" style={{ border: true, borderColor: "#ffb86c", padding: 1, gap: 1 }}>
+      <text fg="#ffb86c">{message}</text>
+      {detail && <text fg="#999999">{detail}</text>}
+      <text style={{ fg: "#999999" }}>y/Enter confirm · n/Esc cancel</text>
+    </box>
+  )
+}
@@ -0,0 +1,188 @@
+/** @jsxImportSource @opentui/react */
+import { useCallback, useEffect, useState } from "react"
+import { useKeyboard } from "@opentui/react"
+import { SynologyClient } from "../services/SynologyClient"
+import { normalizeDestination, toFileStationPath } from "../utils/destination"
+import { useWithSession } from "./withSession"
+
+interface DestinationPickerProps {
+  client: SynologyClient
+  current?: string
+  recent: string[]
+  refreshSession: () => Promise<void>
+  maxRows: number
+  onSelect: (destination: string) => void
+  onCancel: () => void
+}
+
+interface PickerEntry {
+  label: string
+  path: string
+  recent?: boolean
+}
+
+// The share list is the root; every other level is a FileStation folder path.
+const ROOT = ""
+
+export function DestinationPicker({
+  client,
+  current,
+  recent,
+  refreshSession,
+  maxRows,
+  onSelect,
+  onCancel,
+}: DestinationPickerProps) {
+  const [folder, setFolder] = useState(ROOT)
+  const [entries, setEntries] = useState<PickerEntry[]>([])
+  const [cursor, setCursor] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [newFolderName, setNewFolderName] = useState("")
+
+  const withSession = useWithSession(refreshSession)
+
+  const load = useCallback(
+    async (target: string) => {
+      setLoading(true)
+      setError(null)
+      try {
+        if (target === ROOT) {
+          const shares = await withSession(() => client.listSharedFolders())
+          setEntries([
+            ...recent.map((destination) => ({
+              label: `★ ${destination}`,
+              path: toFileStationPath(destination),
+              recent: true,
+            })),
+            ...shares.map((share) => ({ label: `${share.name}/`, path: share.path })),
+          ])
+        } else {
+          const folders = await withSession(() => client.listFolders(target))
+          setEntries(folders.filter((entry) => entry.isdir).map((entry) => ({ label: `${entry.name}/`, path: entry.path })))
+        }
+        setFolder(target)
+        setCursor(0)
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : "Unable to list folders")
+      } finally {
+        setLoading(false)
+      }
+    },
+    [client, recent, withSession],
+  )
+
+  useEffect(() => {
+    void load(ROOT)
+  }, [load])
+
+  const createFolder = useCallback(async () => {
+    const name = newFolderName.trim()
+    setCreating(false)
+    setNewFolderName("")
+    if (!name || folder === ROOT) return
+    try {
+      const created = await withSession(() => client.createFolder(folder, name))
+      await load(folder)
+      setError(null)
+      onSelect(normalizeDestination(created.path))
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : "Unable to create folder")
+    }
+  }, [client, folder, load, newFolderName, onSelect, withSession])
+
+  const parentOf = (target: string) => {
+    const parent = target.replace(/\/[^/]+$/, "")
+    return parent === "" ? ROOT : parent
+  }
+
+  useKeyboard((key) => {
+    if (creating) {
+      if (key.name === "escape") {
+        setCreating(false)
+        setNewFolderName("")
+      } else if (key.name === "return") {
+        void createFolder()
+      }
+      return
+    }
+    const entry = entries[cursor]
+    switch (key.name) {
+      case "up":
+        setCursor((prev) => Math.max(prev - 1, 0))
+        break
+      case "down":
+        setCursor((prev) => Math.min(prev + 1, entries.length - 1))
+        break
+      case "return":
+      case "right":
+        if (entry?.recent) {
+          onSelect(normalizeDestination(entry.path))
+        } else if (entry) {
+          void load(entry.path)
+        }
+        break
+      case "left":
+      case "backspace":
+        if (folder !== ROOT) {
+          void load(parentOf(folder))
+        }
+        break
+      case "s":
+        if (entry) {
+          onSelect(normalizeDestination(entry.path))
+        }
+        break
+      case ".":
+        if (folder !== ROOT) {
+          onSelect(normalizeDestination(folder))
+        }
+        break
+      case "n":
+        if (folder !== ROOT) {
+          setCreating(true)
+        } else {
+          setError("Open a shared folder first; new folders are created inside it.")
+        }
+        break
+      case "escape":
+        onCancel()
+        break
+      default:
+        break
+    }
+  })
+
+  const rows = Math.max(maxRows, 1)
+  const start = Math.min(Math.max(cursor - Math.floor(rows / 2), 0), Math.max(entries.length - rows, 0))
+  const visible = entries.slice(start, start + rows)
+
+  return (
+    <box flexDirection="column" style={{ border: true, padding: 1, gap: 1 }}>
+      <text>{`Destination: ${folder === ROOT ? "shared folders" : folder}${current ? ` (current: ${current})` : ""}`}</text>
+      {error && <text fg="red">{error}</text>}
+      {loading && <text>Loading…</text>}
+      {!loading && entries.length === 0 && <text fg="#999999">No sub-folders.</text>}
+      <box flexDirection="column" style={{ gap: 0 }}>
+        {visible.map((entry, offset) => {
+          const isCursor = start + offset === cursor
+          return (
+            <text key={`${entry.recent ? "recent" : "dir"}-${entry.path}`} fg={isCursor ? "#E7F6F2" : entry.recent ? "#ffd369" : "#89b4fa"}>
+              {`${isCursor ? "➤" : " "} ${entry.label}`}
+            </text>
+          )
+        })}
+      </box>
+      {creating && (
+        <box flexDirection="row" style={{ gap: 1, height: 1 }}>
+          <text fg="#ffd369">New folder:</text>
+          <input value={newFolderName} onInput={setNewFolderName} style={{ flexGrow: 1 }} focused />
+        </box>
+      )}
+      <text style={{ fg: "#999999" }}>
+        Enter/→ open · ←/Backspace up · s use highlighted · . use this folder · n new folder · Esc cancel
+      </text>
+    </box>
+  )
+}
@@ -0,0 +1,99 @@
+/** @jsxImportSource @opentui/react */
+import { useMemo, useState } from "react"
+import { useKeyboard } from "@opentui/react"
+import type { TaskFileList } from "../types/synology"
+import { formatBytes } from "../utils/formatting"
+
+interface FilePickerProps {
+  list: TaskFileList
+  maxRows: number
+  width: number
+  onConfirm: (selected: number[]) => void
+  onCancel: () => void
+}
+
+export function FilePicker({ list, maxRows, width, onConfirm, onCancel }: FilePickerProps) {
+  const [cursor, setCursor] = useState(0)
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(list.files.map((file) => file.index)))
+
+  const totals = useMemo(() => {
+    let selectedSize = 0
+    let totalSize = 0
+    for (const file of list.files) {
+      totalSize += file.size
+      if (selected.has(file.index)) {
+        selectedSize += file.size
+      }
+    }
+    return { selectedSize, totalSize }
+  }, [list.files, selected])
+
+  useKeyboard((key) => {
+    switch (key.name) {
+      case "up":
+        setCursor((prev) => Math.max(prev - 1, 0))
+        break
+      case "down":
+        setCursor((prev) => Math.min(prev + 1, list.files.length - 1))
+        break
+      case "space": {
+        const file = list.files[cursor]
+        if (!file) break
+        setSelected((prev) => {
+          const next = new Set(prev)
+          if (next.has(file.index)) {
+            next.delete(file.index)
+          } else {
+            next.add(file.index)
+          }
+          return next
+        })
+        break
+      }
+      case "a":
+        setSelected((prev) =>
+          prev.size === list.files.length ? new Set() : new Set(list.files.map((file) => file.index)),
+        )
+        break
+      case "return":
+        if (selected.size > 0) {
+          onConfirm(list.files.filter((file) => selected.has(file.index)).map((file) => file.index))
+        }
+        break
+      case "escape":
+        onCancel()
+        break
+      default:
+        break
+    }
+  })
+
+  const rows = Math.max(maxRows, 1)
+  const start = Math.min(Math.max(cursor - Math.floor(rows / 2), 0), Math.max(list.files.length - rows, 0))
+  const visible = list.files.slice(start, start + rows)
+  const sizeWidth = 10
+  const nameWidth = Math.max(width - sizeWidth - 8, 10)
+
+  return (
+    <box flexDirection="column" style={{ border: true, padding: 1, gap: 1 }}>
+      <text>{`Select files for ${list.title ?? "new task"}:`}</text>
+      <box flexDirection="column" style={{ gap: 0 }}>
+        {visible.map((file, offset) => {
+          const index = start + offset
+          const isCursor = index === cursor
+          const mark = selected.has(file.index) ? "[x]" : "[ ]"
+          const name = file.name.length > nameWidth ? `…${file.name.slice(-(nameWidth - 1))}` : file.name
+          return (
+            <text key={file.index} fg={isCursor ? "#E7F6F2" : selected.has(file.index) ? "#a6e3a1" : "#999999"}>
+              {`${isCursor ? "➤" : " "} ${mark} ${name.padEnd(nameWidth)} ${formatBytes(file.size).padStart(sizeWidth)}`}
+            </text>
+          )
+        })}
+      </box>
+      <text fg="#ffd369">
+        {`Selected ${selected.size}/${list.files.length} files · ${formatBytes(totals.selectedSize)} of ${formatBytes(totals.totalSize)}`}
+      </text>
+      <text style={{ fg: "#999999" }}>↑/↓ move · space toggle · a all/none · Enter download · Esc discard</text>
+    </box>
+  )
+}
@@ -0,0 +1,405 @@
+/** @jsxImportSource @opentui/react */
+import { useCallback, useEffect, useState } from "react"
+import { useKeyboard } from "@opentui/react"
+import type { RssFeed, RssFilter, RssFilterInput, RssItem } from "../types/synology"
+import { SynologyClient } from "../services/SynologyClient"
+import { normalizeDestination } from "../utils/destination"
+import { describeRssFilter, fitColumn, formatBytes } from "../utils/formatting"
+import { ConfirmDialog } from "./ConfirmDialog"
+import { useWithSession } from "./withSession"
+
+interface RssViewProps {
+  client: SynologyClient
+  destination?: string
+  refreshSession: () => Promise<void>
+  width: number
+  maxRows: number
+  onMessage: (text: string, tone: "info" | "error" | "success") => void
+  onTaskQueued: () => void
+  onSwitchView: () => void
+}
+
+type Pane = "feeds" | "items" | "filters"
+
+interface FilterForm {
+  id?: number
+  values: RssFilterInput
+  field: number
+}
+
+const FORM_FIELDS = [
+  { key: "name", label: "Name" },
+  { key: "match", label: "Match" },
+  { key: "not_match", label: "Exclude" },
+  { key: "destination", label: "Destination" },
+] as const
+
+const ITEM_PAGE_SIZE = 200
+
+export function RssView({
+  client,
+  destination,
+  refreshSession,
+  width,
+  maxRows,
+  onMessage,
+  onTaskQueued,
+  onSwitchView,
+}: RssViewProps) {
+  const [pane, setPane] = useState<Pane>("feeds")
+  const [feeds, setFeeds] = useState<RssFeed[]>([])
+  const [feedCursor, setFeedCursor] = useState(0)
+  const [items, setItems] = useState<RssItem[]>([])
+  const [itemCursor, setItemCursor] = useState(0)
+  const [filters, setFilters] = useState<RssFilter[]>([])
+  const [filterCursor, setFilterCursor] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [newFeedUrl, setNewFeedUrl] = useState<string | null>(null)
+  const [form, setForm] = useState<FilterForm | null>(null)
+  const [confirm, setConfirm] = useState<{ message: string; onConfirm: () => void } | null>(null)
+
+  const feed = feeds[Math.min(feedCursor, feeds.length - 1)]
+
+  const withSession = useWithSession(refreshSession)
+
+  const run = useCallback(
+    async (request: () => Promise<void>, fallback: string) => {
+      try {
+        await withSession(request)
+      } catch (requestError) {
+        onMessage(requestError instanceof Error ? requestError.message : fallback, "error")
+      }
+    },
+    [onMessage, withSession],
+  )
+
+  const loadFeeds = useCallback(
+    () =>
+      run(async () => {
+        setLoading(true)
+        try {
+          setFeeds(await client.listRssFeeds())
+        } finally {
+          setLoading(false)
+        }
+      }, "Unable to load RSS feeds"),
+    [client, run],
+  )
+
+  const loadItems = useCallback(
+    (feedId: number) =>
+      run(async () => {
+        setItems((await client.listRssItems(feedId, 0, ITEM_PAGE_SIZE)).items)
+        setItemCursor(0)
+      }, "Unable to load feed items"),
+    [client, run],
+  )
+
+  const loadFilters = useCallback(
+    (feedId: number) =>
+      run(async () => {
+        const next = await client.listRssFilters(feedId)
+        setFilters(next)
+        setFilterCursor((prev) => Math.max(Math.min(prev, next.length - 1), 0))
+      }, "Unable to load filters"),
+    [client, run],
+  )
+
+  useEffect(() => {
+    void loadFeeds()
+  }, [loadFeeds])
+
+  const addFeed = (url: string) =>
+    run(async () => {
+      await client.addRssFeed(url)
+      onMessage("Feed added.", "success")
+      await loadFeeds()
+    }, "Unable to add feed")
+
+  const queueItem = (item: RssItem) =>
+    run(async () => {
+      await client.createTaskFromUrl(item.download_uri, destination)
+      onMessage(`Queued ${item.title}.`, "success")
+      onTaskQueued()
+    }, "Unable to queue item")
+
+  const saveFilter = (current: FilterForm) => {
+    if (!feed) return
+    const values = { ...current.values, destination: normalizeDestination(current.values.destination) }
+    if (!values.name.trim() || !values.match.trim() || !values.destination) {
+      onMessage("Filters need a name, a match pattern and a destination.", "error")
+      return
+    }
+    setForm(null)
+    void run(async () => {
+      if (current.id === undefined) {
+        await client.addRssFilter(feed.id, values)
+      } else {
+        await client.updateRssFilter(current.id, values)
+      }
+      onMessage(`Filter "${values.name}" saved.`, "success")
+      await loadFilters(feed.id)
+    }, "Unable to save filter")
+  }
+
+  useKeyboard((key) => {
+    if (confirm) {
+      // ConfirmDialog owns the keyboard while it is open.
+      return
+    }
+    if (newFeedUrl !== null) {
+      if (key.name === "escape") {
+        setNewFeedUrl(null)
+      } else if (key.name === "return") {
+        const url = newFeedUrl.trim()
+        setNewFeedUrl(null)
+        if (url) void addFeed(url)
+      }
+      return
+    }
+    if (form) {
+      if (key.name === "escape") {
+        setForm(null)
+      } else if (key.name === "return") {
+        saveFilter(form)
+      } else if (key.name === "tab" || key.name === "down") {
+        setForm({ ...form, field: (form.field + (key.shift ? FORM_FIELDS.length - 1 : 1)) % FORM_FIELDS.length })
+      } else if (key.name === "up") {
+        setForm({ ...form, field: (form.field + FORM_FIELDS.length - 1) % FORM_FIELDS.length })
+      }
+      return
+    }
+    if (key.name === "tab") {
+      onSwitchView()
+      return
+    }
+    if (pane === "feeds") {
+      switch (key.name) {
+        case "up":
+          setFeedCursor((prev) => Math.max(prev - 1, 0))
+          break
+        case "down":
+          setFeedCursor((prev) => Math.min(prev + 1, feeds.length - 1))
+          break
+        case "return":
+        case "right":
+          if (feed) {
+            setPane("items")
+            void loadItems(feed.id)
+          }
+          break
+        case "f":
+          if (feed) {
+            setPane("filters")
+            void loadFilters(feed.id)
+          }
+          break
+        case "a":
+          setNewFeedUrl("")
+          break
+        case "r":
+          if (key.shift) {
+            void run(async () => {
+              await client.refreshRssFeeds()
+              onMessage("Refreshing all feeds…", "info")
+              await loadFeeds()
+            }, "Unable to refresh feeds")
+          } else if (feed) {
+            void run(async () => {
+              await client.refreshRssFeeds([feed.id])
+              onMessage(`Refreshing ${feed.title}…`, "info")
+              await loadFeeds()
+            }, "Unable to refresh feed")
+          }
+          break
+        case "d":
+          if (feed) {
+            setConfirm({
+              message: `Unsubscribe from "${feed.title}"?`,
+              onConfirm: () =>
+                void run(async () => {
+                  await client.removeRssFeeds([feed.id])
+                  onMessage("Feed removed.", "success")
+                  setFeedCursor((prev) => Math.max(prev - 1, 0))
+                  await loadFeeds()
+                }, "Unable to remove feed"),
+            })
+          }
+          break
+        default:
+          break
+      }
+      return
+    }
+    if (key.name === "escape" || key.name === "left") {
+      setPane("feeds")
+      return
+    }
+    if (pane === "items") {
+      const item = items[itemCursor]
+      switch (key.name) {
+        case "up":
+          setItemCursor((prev) => Math.max(prev - 1, 0))
+          break
+        case "down":
+          setItemCursor((prev) => Math.min(prev + 1, items.length - 1))
+          break
+        case "return":
+          if (item) void queueItem(item)
+          break
+        case "f":
+          if (feed) {
+            setPane("filters")
+            void loadFilters(feed.id)
+          }
+          break
+        default:
+          break
+      }
+      return
+    }
+    const filter = filters[filterCursor]
+    switch (key.name) {
+      case "up":
+        setFilterCursor((prev) => Math.max(prev - 1, 0))
+        break
+      case "down":
+        setFilterCursor((prev) => Math.min(prev + 1, filters.length - 1))
+        break
+      case "a":
+        setForm({ values: { name: "", match: "", not_match: "", destination: destination ?? "", enabled: true }, field: 0 })
+        break
+      case "e":
+      case "return":
+        if (filter) {
+          const { id, feed_id: _feedId, ...values } = filter
+          setForm({ id, values, field: 0 })
+        }
+        break
+      case "space":
+        if (filter && feed) {
+          void run(async () => {
+            await client.updateRssFilter(filter.id, { enabled: !filter.enabled })
+            await loadFilters(feed.id)
+          }, "Unable to update filter")
+        }
+        break
+      case "d":
+        if (filter && feed) {
+          setConfirm({
+            message: `Delete filter "${filter.name}"?`,
+            onConfirm: () =>
+              void run(async () => {
+                await client.removeRssFilter(filter.id)
+                onMessage("Filter removed.", "success")
+                await loadFilters(feed.id)
+              }, "Unable to remove filter"),
+          })
+        }
+        break
+      default:
+        break
+    }
+  })
+
+  const rows = Math.max(maxRows, 1)
+  const feedWidth = Math.max(Math.floor(width * 0.3), 16)
+  const detailWidth = Math.max(width - feedWidth - 3, 20)
+  const windowed = <T,>(list: T[], cursor: number) => {
+    const start = Math.min(Math.max(cursor - Math.floor(rows / 2), 0), Math.max(list.length - rows, 0))
+    return { start, visible: list.slice(start, start + rows) }
+  }
+  const feedWindow = windowed(feeds, feedCursor)
+  const itemWindow = windowed(items, itemCursor)
+  const filterWindow = windowed(filters, filterCursor)
+  const hints: Record<Pane, string> = {
+    feeds: "Enter/→ items · f filters · a add feed · d remove · r refresh · R refresh all · Tab switch view",
+    items: "Enter queue to current destination · f filters · ←/Esc feeds",
+    filters: "a add · e/Enter edit · space on/off · d delete · ←/Esc feeds",
+  }
+
+  return (
+    <box flexDirection="column" style={{ border: true, padding: 1, gap: 1, flexGrow: 1, minHeight: 0 }}>
+      <box flexDirection="row" style={{ gap: 2, flexGrow: 1, minHeight: 0 }}>
+        <box flexDirection="column" style={{ width: feedWidth, gap: 0 }}>
+          <text fg={pane === "feeds" ? "#ffd369" : "#88c0d0"}>Feeds</text>
+          {loading && <text>Loading…</text>}
+          {!loading && feeds.length === 0 && <text fg="#999999">No feeds. Press a to add one.</text>}
+          {feedWindow.visible.map((entry, offset) => {
+            const isCursor = feedWindow.start + offset === feedCursor
+            return (
+              <text key={`feed-${entry.id}`} fg={isCursor ? "#E7F6F2" : "#89b4fa"}>
+                {`${isCursor ? "➤" : " "} ${fitColumn(`${entry.title}${entry.is_updating ? " ⟳" : ""}`, feedWidth - 2)}`}
+              </text>
+            )
+          })}
+        </box>
+        <box flexDirection="column" style={{ flexGrow: 1, gap: 0 }}>
+          {pane === "filters" ? (
+            <>
+              <text fg="#ffd369">{`Filters${feed ? ` · ${feed.title}` : ""}`}</text>
+              {filters.length === 0 && <text fg="#999999">No filters. Press a to add one.</text>}
+              {filterWindow.visible.map((entry, offset) => {
+                const isCursor = filterWindow.start + offset === filterCursor
+                return (
+                  <text key={`filter-${entry.id}`} fg={isCursor ? "#E7F6F2" : entry.enabled ? "#a6e3a1" : "#999999"}>
+                    {`${isCursor ? "➤" : " "} ${entry.enabled ? "●" : "○"} ${fitColumn(describeRssFilter(entry), detailWidth - 4)}`}
+                  </text>
+                )
+              })}
+            </>
+          ) : (
+            <>
+              <text fg={pane === "items" ? "#ffd369" : "#88c0d0"}>{`Items${feed ? ` · ${feed.title}` : ""}`}</text>
+              {pane === "feeds" && <text fg="#999999">Press Enter to browse the highlighted feed.</text>}
+              {pane === "items" && items.length === 0 && <text fg="#999999">This feed has no items.</text>}
+              {pane === "items" &&
+                itemWindow.visible.map((entry, offset) => {
+                  const isCursor = itemWindow.start + offset === itemCursor
+                  const size = formatBytes(entry.size).padStart(10)
+                  return (
+                    <text key={`item-${entry.id}`} fg={isCursor ? "#E7F6F2" : entry.is_new ? "#8be9fd" : "#cdd6f4"}>
+                      {`${isCursor ? "➤" : " "} ${fitColumn(entry.title, detailWidth - size.length - 4)} ${size}`}
+                    </text>
+                  )
+                })}
+            </>
+          )}
+        </box>
+      </box>
+      {newFeedUrl !== null && (
+        <box flexDirection="row" style={{ gap: 1, height: 1 }}>
+          <text fg="#ffd369">Feed URL:</text>
+          <input value={newFeedUrl} onInput={setNewFeedUrl} style={{ flexGrow: 1 }} focused />
+        </box>
+      )}
+      {form && (
+        <box flexDirection="column" style={{ gap: 0 }}>
+          {FORM_FIELDS.map((field, index) => (
+            <box key={field.key} flexDirection="row" style={{ gap: 1, height: 1 }}>
+              <text fg={index === form.field ? "#ffd369" : "#999999"}>{`${field.label}:`.padEnd(13)}</text>
+              <input
+                value={form.values[field.key]}
+                onInput={(value) => setForm((prev) => (prev ? { ...prev, values: { ...prev.values, [field.key]: value } } : prev))}
+                style={{ flexGrow: 1 }}
+                focused={index === form.field}
+              />
+            </box>
+          ))}
+          <text fg="#999999">Tab/↑/↓ next field · Enter save · Esc cancel</text>
+        </box>
+      )}
+      {confirm && (
+        <ConfirmDialog
+          message={confirm.message}
+          onConfirm={() => {
+            setConfirm(null)
+            confirm.onConfirm()
+          }}
+          onCancel={() => setConfirm(null)}
+        />
+      )}
+      <text style={{ fg: "#999999" }}>{hints[pane]}</text>
+    </box>
+  )
+}
@@ -0,0 +1,203 @@
+/** @jsxImportSource @opentui/react */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { useKeyboard } from "@opentui/react"
+import type { BtSearchResult } from "../types/synology"
+import { SynologyClient } from "../services/SynologyClient"
+import { BT_SEARCH_SORT_KEYS, sortBtSearchResults, type BtSearchSortKey } from "../utils/btSearch"
+import { fitColumn, formatBytes } from "../utils/formatting"
+import { useWithSession } from "./withSession"
+
+interface SearchViewProps {
+  client: SynologyClient
+  destination?: string
+  refreshSession: () => Promise<void>
+  width: number
+  maxRows: number
+  onMessage: (text: string, tone: "info" | "error" | "success") => void
+  onTaskQueued: () => void
+  onSwitchView: () => void
+}
+
+const SEARCH_POLL_INTERVAL_MS = 1000
+
+export function SearchView({
+  client,
+  destination,
+  refreshSession,
+  width,
+  maxRows,
+  onMessage,
+  onTaskQueued,
+  onSwitchView,
+}: SearchViewProps) {
+  const [keyword, setKeyword] = useState("")
+  const [editing, setEditing] = useState(true)
+  const [searchId, setSearchId] = useState<string | null>(null)
+  const [running, setRunning] = useState(false)
+  const [results, setResults] = useState<BtSearchResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [cursor, setCursor] = useState(0)
+  const [sort, setSort] = useState<{ key: BtSearchSortKey; descending: boolean }>({ key: "seeds", descending: true })
+  const searchIdRef = useRef<string | null>(null)
+  const loading = useRef(false)
+
+  const withSession = useWithSession(refreshSession)
+
+  const cleanUp = useCallback(
+    (id: string | null) => {
+      if (id) {
+        // Searches hold results on the NAS until cleaned; a failure here only leaks that cache.
+        void client.cleanBtSearch(id).catch(() => undefined)
+      }
+    },
+    [client],
+  )
+
+  useEffect(() => () => cleanUp(searchIdRef.current), [cleanUp])
+
+  const startSearch = useCallback(
+    async (query: string) => {
+      cleanUp(searchIdRef.current)
+      searchIdRef.current = null
+      setSearchId(null)
+      setResults([])
+      setTotal(0)
+      setCursor(0)
+      try {
+        const id = await withSession(() => client.startBtSearch(query))
+        searchIdRef.current = id
+        setSearchId(id)
+        setRunning(true)
+        onMessage(`Searching for "${query}"…`, "info")
+      } catch (searchError) {
+        onMessage(searchError instanceof Error ? searchError.message : "Unable to start search", "error")
+      }
+    },
+    [cleanUp, client, onMessage, withSession],
+  )
+
+  useEffect(() => {
+    if (!searchId || !running) return
+    const poll = async () => {
+      // A slow poll must not overlap the next tick, or older results could land after newer ones.
+      if (loading.current) {
+        return
+      }
+      loading.current = true
+      try {
+        const page = await withSession(() => client.listBtSearchResults(searchId))
+        if (searchIdRef.current !== searchId) return
+        setResults(page.results)
+        setTotal(page.total)
+        if (!page.is_running) {
+          setRunning(false)
+          onMessage(`Search finished: ${page.total} result(s).`, "info")
+        }
+      } catch (pollError) {
+        setRunning(false)
+        onMessage(pollError instanceof Error ? pollError.message : "Unable to load search results", "error")
+      } finally {
+        loading.current = false
+      }
+    }
+    void poll()
+    const timer = setInterval(() => void poll(), SEARCH_POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [client, onMessage, running, searchId, withSession])
+
+  const sorted = useMemo(() => sortBtSearchResults(results, sort.key, sort.descending), [results, sort])
+
+  const queue = async (result: BtSearchResult) => {
+    try {
+      await withSession(() => client.createTaskFromUrl(result.download_uri, destination))
+      onMessage(`Queued ${result.title}.`, "success")
+      onTaskQueued()
+    } catch (queueError) {
+      onMessage(queueError instanceof Error ? queueError.message : "Unable to create task", "error")
+    }
+  }
+
+  useKeyboard((key) => {
+    if (key.name === "tab") {
+      onSwitchView()
+      return
+    }
+    if (editing) {
+      if (key.name === "return") {
+        const query = keyword.trim()
+        if (query) {
+          setEditing(false)
+          void startSearch(query)
+        }
+      } else if (key.name === "escape" || key.name === "down") {
+        setEditing(false)
+      }
+      return
+    }
+    switch (key.name) {
+      case "up":
+        setCursor((prev) => Math.max(prev - 1, 0))
+        break
+      case "down":
+        setCursor((prev) => Math.min(prev + 1, sorted.length - 1))
+        break
+      case "return":
+        if (sorted[cursor]) void queue(sorted[cursor])
+        break
+      case "/":
+        setEditing(true)
+        break
+      default:
+        if (key.name && /^[1-5]$/.test(key.name)) {
+          const next = BT_SEARCH_SORT_KEYS[Number(key.name) - 1]
+          setSort((prev) => (prev.key === next ? { ...prev, descending: !prev.descending } : { key: next, descending: next !== "engine" }))
+          setCursor(0)
+        }
+        break
+    }
+  })
+
+  const rows = Math.max(maxRows, 1)
+  const start = Math.min(Math.max(cursor - Math.floor(rows / 2), 0), Math.max(sorted.length - rows, 0))
+  const visible = sorted.slice(start, start + rows)
+  const statsWidth = 40
+  const titleWidth = Math.max(width - statsWidth - 4, 12)
+  const header = `${"Title".padEnd(titleWidth)} ${"Size".padStart(10)} ${"Seeds".padStart(6)} ${"Leech".padStart(6)}  Engine`
+  const summary = searchId
+    ? `${sorted.length} of ${total} result(s)${running ? " · searching…" : ""} · sort ${sort.key} ${sort.descending ? "↓" : "↑"}`
+    : "Type a query and press Enter to search the BT engines enabled in Download Station."
+
+  return (
+    <box flexDirection="column" style={{ border: true, padding: 1, gap: 1, flexGrow: 1, minHeight: 0 }}>
+      <box flexDirection="row" style={{ gap: 1, height: 1 }}>
+        <text fg="#ffd369">Search:</text>
+        <input value={keyword} onInput={setKeyword} placeholder="e.g. ubuntu 24.04" style={{ flexGrow: 1 }} focused={editing} />
+      </box>
+      <text fg="#999999">{summary}</text>
+      <box flexDirection="column" style={{ gap: 0 }}>
+        <text>
+          <strong fg="#88c0d0">{header}</strong>
+        </text>
+        {visible.map((result, offset) => {
+          const isCursor = start + offset === cursor
+          return (
+            <text key={`result-${result.id}`} fg={isCursor ? "#E7F6F2" : "#cdd6f4"}>
+              {[
+                `${isCursor ? "➤" : " "} ${fitColumn(result.title, titleWidth - 2)}`,
+                formatBytes(result.size).padStart(10),
+                String(result.seeds ?? "-").padStart(6),
+                String(result.leechs ?? "-").padStart(6),
+                ` ${result.module_title ?? "-"}`,
+              ].join(" ")}
+            </text>
+          )
+        })}
+      </box>
+      <text style={{ fg: "#999999" }}>
+        {editing
+          ? "Enter search · Esc/↓ browse results · Tab switch view"
+          : `Enter queue to ${destination ?? "NAS default"} · / new search · 1-5 sort by ${BT_SEARCH_SORT_KEYS.join("/")} · Tab switch view`}
+      </text>
+    </box>
+  )
+}
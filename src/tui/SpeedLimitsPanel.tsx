@@ -0,0 +1,163 @@
+/** @jsxImportSource @opentui/react */
+import { useCallback, useState } from "react"
+import { useKeyboard } from "@opentui/react"
+import type { SpeedLimits } from "../types/synology"
+import { SynologyClient } from "../services/SynologyClient"
+import { describeSchedule, formatRate, parseRate } from "../utils/rates"
+import { useWithSession } from "./withSession"
+
+interface SpeedLimitsPanelProps {
+  client: SynologyClient
+  limits: SpeedLimits | null
+  taskIds: string[]
+  taskLabel?: string
+  refreshSession: () => Promise<void>
+  onSaved: (message: string) => void
+  onClose: () => void
+}
+
+type Field = "download" | "upload" | "schedule" | "taskDownload" | "taskUpload"
+
+export function SpeedLimitsPanel({
+  client,
+  limits,
+  taskIds,
+  taskLabel,
+  refreshSession,
+  onSaved,
+  onClose,
+}: SpeedLimitsPanelProps) {
+  const fields: Field[] = ["download", "upload", "schedule", ...(taskIds.length > 0 ? (["taskDownload", "taskUpload"] as const) : [])]
+  const [cursor, setCursor] = useState(0)
+  const [editing, setEditing] = useState<Field | null>(null)
+  const [draft, setDraft] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const withSession = useWithSession(refreshSession)
+
+  const save = useCallback(
+    async (field: Field, request: () => Promise<void>, message: string) => {
+      setSaving(true)
+      try {
+        await withSession(request)
+        setError(null)
+        onSaved(message)
+      } catch (saveError) {
+        setError(saveError instanceof Error ? saveError.message : `Unable to update ${field}`)
+      } finally {
+        setSaving(false)
+      }
+    },
+    [onSaved, withSession],
+  )
+
+  const submit = useCallback(() => {
+    const field = editing
+    setEditing(null)
+    if (!field) return
+    let rate: number
+    try {
+      rate = parseRate(draft)
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : String(parseError))
+      return
+    }
+    const label = formatRate(rate)
+    switch (field) {
+      case "download":
+        void save(field, () => client.setGlobalSpeedLimit({ download: rate }), `Global download limit set to ${label}.`)
+        break
+      case "upload":
+        void save(field, () => client.setGlobalSpeedLimit({ upload: rate }), `Global upload limit set to ${label}.`)
+        break
+      case "taskDownload":
+        void save(field, () => client.setTaskSpeedLimit(taskIds, { max_download_rate: rate }), `Task download limit set to ${label}.`)
+        break
+      case "taskUpload":
+        void save(field, () => client.setTaskSpeedLimit(taskIds, { max_upload_rate: rate }), `Task upload limit set to ${label}.`)
+        break
+      default:
+        break
+    }
+  }, [client, draft, editing, save, taskIds])
+
+  useKeyboard((key) => {
+    if (editing) {
+      if (key.name === "escape") {
+        setEditing(null)
+      } else if (key.name === "return") {
+        submit()
+      }
+      return
+    }
+    if (saving) return
+    const field = fields[cursor]
+    switch (key.name) {
+      case "up":
+        setCursor((prev) => Math.max(prev - 1, 0))
+        break
+      case "down":
+        setCursor((prev) => Math.min(prev + 1, fields.length - 1))
+        break
+      case "return":
+      case "space":
+        if (field === "schedule") {
+          const enabled = !(limits?.scheduler.enabled ?? false)
+          void save(
+            field,
+            () => client.setSettings("scheduler", { enabled }),
+            `Alternate-speed schedule ${enabled ? "enabled" : "disabled"}.`,
+          )
+        } else if (field) {
+          setDraft("")
+          setEditing(field)
+        }
+        break
+      case "escape":
+      case "l":
+      case "q":
+        onClose()
+        break
+      default:
+        break
+    }
+  })
+
+  const describe = (field: Field): string => {
+    switch (field) {
+      case "download":
+        return `Global download   BT ${formatRate(limits?.btDownload)} · HTTP/FTP ${formatRate(limits?.ftpHttpDownload)} · NZB ${formatRate(limits?.nzbDownload)}`
+      case "upload":
+        return `Global upload     BT ${formatRate(limits?.btUpload)}`
+      case "schedule":
+        return `Alternate speed   ${limits ? describeSchedule(limits.scheduler) : "-"}`
+      case "taskDownload":
+        return `Task download     ${taskLabel ?? `${taskIds.length} tasks`}`
+      case "taskUpload":
+        return `Task upload       ${taskLabel ?? `${taskIds.length} tasks`}`
+    }
+  }
+
+  return (
+    <box flexDirection="column" style={{ border: true, padding: 1, gap: 1 }}>
+      <text fg="#8be9fd">Speed limits</text>
+      {error && <text fg="red">{error}</text>}
+      {!limits && <text>Loading…</text>}
+      <box flexDirection="column" style={{ gap: 0 }}>
+        {fields.map((field, index) => (
+          <text key={field} fg={index === cursor ? "#E7F6F2" : "#cdd6f4"}>
+            {`${index === cursor ? "➤" : " "} ${describe(field)}`}
+          </text>
+        ))}
+      </box>
+      {editing && (
+        <box flexDirection="row" style={{ gap: 1, height: 1 }}>
+          <text fg="#ffd369">New limit:</text>
+          <input value={draft} onInput={setDraft} placeholder="e.g. 500K, 2M or unlimited" style={{ flexGrow: 1 }} focused />
+        </box>
+      )}
+      <text style={{ fg: "#999999" }}>↑/↓ move · Enter edit · space toggle schedule · Esc close</text>
+    </box>
+  )
+}
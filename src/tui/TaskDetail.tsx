@@ -0,0 +1,181 @@
+/** @jsxImportSource @opentui/react */
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useKeyboard } from "@opentui/react"
+import type { Task } from "../types/synology"
+import { SynologyClient } from "../services/SynologyClient"
+import {
+  deriveProgress,
+  deriveUploadRatio,
+  describeStatus,
+  fitColumn,
+  formatBytes,
+  formatPercent,
+  formatSpeed,
+  formatTimestamp,
+} from "../utils/formatting"
+import { withSessionRetry } from "./withSession"
+
+interface TaskDetailProps {
+  client: SynologyClient
+  task: Task
+  refreshSession: () => Promise<void>
+  width: number
+  maxRows: number
+  onClose: () => void
+}
+
+const TABS = ["Overview", "Files", "Peers", "Trackers", "Log"] as const
+
+type Tab = (typeof TABS)[number]
+
+const DETAIL_REFRESH_INTERVAL_MS = 2000
+
+export function TaskDetail({ client, task: initialTask, refreshSession, width, maxRows, onClose }: TaskDetailProps) {
+  const [task, setTask] = useState<Task>(initialTask)
+  const [tab, setTab] = useState<Tab>("Overview")
+  const [scroll, setScroll] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  // The refresh timer skips ticks while a load (or the re-auth inside it) is still running.
+  const loading = useRef(false)
+
+  const load = useCallback(async () => {
+    if (loading.current) {
+      return
+    }
+    loading.current = true
+    try {
+      setTask(await withSessionRetry(() => client.getTask(initialTask.id), refreshSession))
+      setError(null)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Unable to load task details")
+    } finally {
+      loading.current = false
+    }
+  }, [client, initialTask.id, refreshSession])
+
+  useEffect(() => {
+    void load()
+    const timer = setInterval(() => void load(), DETAIL_REFRESH_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [load])
+
+  const lines = buildLines(task, tab, width)
+
+  useKeyboard((key) => {
+    const tabIndex = TABS.indexOf(tab)
+    switch (key.name) {
+      case "left":
+        setTab(TABS[(tabIndex + TABS.length - 1) % TABS.length])
+        setScroll(0)
+        break
+      case "right":
+      case "tab":
+        setTab(TABS[(tabIndex + 1) % TABS.length])
+        setScroll(0)
+        break
+      case "up":
+        setScroll((prev) => Math.max(prev - 1, 0))
+        break
+      case "down":
+        setScroll((prev) => Math.min(prev + 1, Math.max(lines.length - maxRows, 0)))
+        break
+      case "escape":
+      case "return":
+      case "q":
+        onClose()
+        break
+      default:
+        if (key.name && /^[1-5]$/.test(key.name)) {
+          setTab(TABS[Number(key.name) - 1])
+          setScroll(0)
+        }
+        break
+    }
+  })
+
+  const tabBar = TABS.map((name, index) => (name === tab ? `[${index + 1} ${name}]` : ` ${index + 1} ${name} `)).join(" ")
+  const visible = lines.slice(scroll, scroll + Math.max(maxRows, 1))
+
+  return (
+    <box flexDirection="column" style={{ border: true, padding: 1, gap: 1, flexGrow: 1, minHeight: 0 }}>
+      <text>
+        <strong fg="#8be9fd">{task.title}</strong>
+      </text>
+      <text fg="#88c0d0">{tabBar}</text>
+      {error && <text fg="red">{error}</text>}
+      <box flexDirection="column" style={{ gap: 0 }}>
+        {visible.length === 0 && <text fg="#999999">Nothing to show.</text>}
+        {visible.map((line, index) => (
+          <text key={`${tab}-${scroll + index}`}>{line}</text>
+        ))}
+      </box>
+      <text style={{ fg: "#999999" }}>←/→ or 1-5 switch tab · ↑/↓ scroll · Esc close</text>
+    </box>
+  )
+}
+
+function buildLines(task: Task, tab: Tab, width: number): string[] {
+  const detail = task.additional?.detail
+  const transfer = task.additional?.transfer
+  switch (tab) {
+    case "Overview": {
+      const ratio = deriveUploadRatio(task)
+      return [
+        `Status       ${describeStatus(task.status)}`,
+        `Progress     ${formatPercent(deriveProgress(task))} of ${formatBytes(task.size)}`,
+        `Downloaded   ${formatBytes(transfer?.size_downloaded)} @ ${formatSpeed(transfer?.speed_download)}`,
+        `Uploaded     ${formatBytes(transfer?.size_uploaded)} @ ${formatSpeed(transfer?.speed_upload)}`,
+        `Ratio        ${ratio === undefined ? "-" : ratio.toFixed(2)}`,
+        `Peers        ${detail?.connected_peers ?? "-"} connected / ${detail?.total_peers ?? "-"} total`,
+        `Seeders      ${detail?.connected_seeders ?? "-"} · leechers ${detail?.connected_leechers ?? "-"}`,
+        `Destination  ${detail?.destination ?? "-"}`,
+        `URI          ${fitColumn(detail?.uri ?? "-", width - 13)}`,
+        `Created      ${formatTimestamp(detail?.created_time)}`,
+        `Started      ${formatTimestamp(detail?.started_time)}`,
+        `Completed    ${formatTimestamp(detail?.completed_time)}`,
+        ...(task.status_extra?.error_detail ? [`Error        ${task.status_extra.error_detail}`] : []),
+      ]
+    }
+    case "Files":
+      return (task.additional?.file ?? []).map((file) => {
+        const progress = file.size > 0 ? ((file.size_downloaded ?? 0) / file.size) * 100 : undefined
+        const suffix = ` ${formatPercent(progress).padStart(4)} ${formatBytes(file.size).padStart(10)} ${(file.priority ?? "").padEnd(6)}`
+        const mark = file.wanted === false ? "[ ]" : "[x]"
+        return `${mark} ${fitColumn(file.filename, width - suffix.length - 4)}${suffix}`
+      })
+    case "Peers":
+      return (task.additional?.peer ?? []).map((peer) =>
+        [
+          peer.address.padEnd(24),
+          fitColumn(peer.agent ?? "-", 20),
+          formatPercent(peer.progress === undefined ? undefined : peer.progress * 100).padStart(5),
+          `↓ ${formatSpeed(peer.speed_download)}`.padEnd(14),
+          `↑ ${formatSpeed(peer.speed_upload)}`,
+        ].join(" "),
+      )
+    case "Trackers":
+      return (task.additional?.tracker ?? []).map(
+        (tracker) =>
+          `${fitColumn(tracker.url, width - 40)} ${(tracker.status ?? "-").padEnd(16)} seeds ${tracker.seeds ?? "-"} · peers ${tracker.peers ?? "-"}`,
+      )
+    case "Log": {
+      const events: [number | undefined, string][] = [
+        [detail?.created_time, "Task created"],
+        [detail?.started_time, "Download started"],
+        [detail?.completed_time, "Download completed"],
+      ]
+      const lines = events
+        .filter(([time]) => Boolean(time && time > 0))
+        .sort(([a], [b]) => (a ?? 0) - (b ?? 0))
+        .map(([time, message]) => `${formatTimestamp(time)}  ${message}`)
+      if (task.status_extra?.error_detail) {
+        lines.push(`Current error: ${task.status_extra.error_detail}`)
+      }
+      if (task.status_extra?.unzip_progress !== undefined) {
+        lines.push(`Extracting: ${formatPercent(task.status_extra.unzip_progress)}`)
+      }
+      return lines
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { useCallback } from "react"
+import { SynologyRequestError } from "../services/SynologyClient"
+
+// DSM's "session expired or invalid".
+const SESSION_EXPIRED_CODE = 119
+
+/** Runs `request`; when DSM reports the session expired, signs in again with `refreshSession` and retries once. */
+export async function withSessionRetry<T>(
+  request: () => Promise<T>,
+  refreshSession: () => Promise<void>,
+  onExpired?: () => void,
+): Promise<T> {
+  try {
+    return await request()
+  } catch (error) {
+    if (!(error instanceof SynologyRequestError && error.code === SESSION_EXPIRED_CODE)) {
+      throw error
+    }
+    onExpired?.()
+    await refreshSession()
+    return request()
+  }
+}
+
+/** `withSessionRetry` bound to a view's `refreshSession`. */
+export function useWithSession(refreshSession: () => Promise<void>) {
+  return useCallback(<T>(request: () => Promise<T>) => withSessionRetry(request, refreshSession), [refreshSession])
+}
@@ -11,11 +11,22 @@ export interface SynologyError {
 
 export interface AuthData {
   account?: string
+  // DSM 7 returns the trusted-device token as `did`; DSM 6 used `device_id`.
+  did?: string
   device_id?: string
   sid: string
   synotoken?: string
 }
 
+export interface ApiInfoEntry {
+  path: string
+  minVersion: number
+  maxVersion: number
+  requestFormat?: string
+}
+
+export type ApiInfo = Record<string, ApiInfoEntry>
+
 export interface TasksResponse {
   offset: number
   total: number
@@ -45,6 +56,9 @@ export interface StatusExtra {
 export interface AdditionalTaskInfo {
   detail?: Detail
   transfer?: Transfer
+  file?: TaskFile[]
+  tracker?: Tracker[]
+  peer?: Peer[]
 }
 
 export interface Detail {
@@ -53,6 +67,12 @@ export interface Detail {
   created_time?: number
   started_time?: number
   uri?: string
+  connected_leechers?: number
+  connected_seeders?: number
+  connected_peers?: number
+  total_peers?: number
+  seed_elapsed?: number
+  waiting_seconds?: number
 }
 
 export interface Transfer {
@@ -63,6 +83,93 @@ export interface Transfer {
   speed_upload?: number
 }
 
+// DSM 6 (SYNO.DownloadStation.Task) reports status as a string and uses slightly different detail keys.
+export interface LegacyTask {
+  id: string
+  username: string
+  type: string
+  title: string
+  size: number
+  status: string
+  status_extra?: StatusExtra
+  additional?: {
+    detail?: LegacyDetail
+    transfer?: Transfer
+    file?: TaskFile[]
+    tracker?: Tracker[]
+    peer?: Peer[]
+  }
+}
+
+export interface LegacyDetail {
+  destination?: string
+  uri?: string
+  create_time?: number
+  started_time?: number
+  completed_time?: number
+  connected_leechers?: number
+  connected_seeders?: number
+  connected_peers?: number
+  total_peers?: number
+  seedelapsed?: number
+  waiting_seconds?: number
+}
+
+export interface LegacyTaskListResponse {
+  offset: number
+  total: number
+  tasks: LegacyTask[]
+}
+
+export interface LegacyTaskInfoResponse {
+  tasks: LegacyTask[]
+}
+
+export type LegacyTaskOperationResponse = { id: string; error: number }[]
+
+export interface TaskCreateResponse {
+  list_id?: string[]
+  task_id?: string[]
+}
+
+export interface TaskFileList {
+  title?: string
+  type?: string
+  size?: number
+  files: TaskListFile[]
+}
+
+export interface TaskListFile {
+  index: number
+  name: string
+  size: number
+}
+
+export interface TaskFile {
+  index: number
+  filename: string
+  size: number
+  size_downloaded?: number
+  priority?: string
+  wanted?: boolean
+}
+
+export interface Tracker {
+  url: string
+  status?: string
+  peers?: number
+  seeds?: number
+  update_timer?: number
+}
+
+export interface Peer {
+  address: string
+  agent?: string
+  progress?: number
+  speed_download?: number
+  speed_upload?: number
+}
+
 export interface TaskOperation {
   failed_task?: FailedTask[]
 }
@@ -77,6 +184,166 @@ export interface TaskOperationError {
   task_id?: string[]
 }
 
+// Download Station expresses every rate in KB/s; 0 means unlimited.
+export interface BtSettings {
+  max_download_rate: number
+  max_upload_rate: number
+  tcp_port?: number
+  max_peers?: number
+  seeding_ratio?: number
+  // Minutes; 0 seeds forever.
+  seeding_interval?: number
+}
+
+export interface FtpHttpSettings {
+  max_download_rate: number
+}
+
+export interface NzbSettings {
+  max_download_rate: number
+}
+
+export interface SchedulerSettings {
+  enabled: boolean
+  alternative_download_rate?: number
+  alternative_upload_rate?: number
+}
+
+export interface GlobalSettings {
+  max_concurrent_tasks?: number
+}
+
+export interface LocationSettings {
+  default_destination?: string
+}
+
+export interface AutoExtractionSettings {
+  enabled: boolean
+  delete_archive?: boolean
+  overwrite?: boolean
+}
+
+export interface DownloadStationSettings {
+  global: GlobalSettings
+  location: LocationSettings
+  bt: BtSettings
+  ftpHttp: FtpHttpSettings
+  nzb: NzbSettings
+  scheduler: SchedulerSettings
+  autoExtraction: AutoExtractionSettings
+}
+
+export type SettingsSection = keyof DownloadStationSettings
+
+export type SettingsPatch = { [K in SettingsSection]?: Partial<DownloadStationSettings[K]> }
+
+export interface SpeedLimits {
+  btDownload: number
+  btUpload: number
+  ftpHttpDownload: number
+  nzbDownload: number
+  scheduler: SchedulerSettings
+}
+
+export interface TaskSpeedLimit {
+  max_download_rate?: number
+  max_upload_rate?: number
+}
+
+export interface FileStationListShareResponse {
+  offset: number
+  total: number
+  shares: FileStationEntry[]
+}
+
+export interface FileStationListResponse {
+  offset: number
+  total: number
+  files: FileStationEntry[]
+}
+
+export interface FileStationCreateFolderResponse {
+  folders: FileStationEntry[]
+}
+
+export interface FileStationEntry {
+  isdir: boolean
+  name: string
+  path: string
+}
+
+export interface RssFeed {
+  id: number
+  title: string
+  url: string
+  is_updating?: boolean
+  last_update?: number
+}
+
+export interface RssFeedListResponse {
+  offset: number
+  total: number
+  sites: RssFeed[]
+}
+
+export interface RssItem {
+  id: string
+  title: string
+  download_uri: string
+  external_link?: string
+  size?: number
+  time?: number
+  is_new?: boolean
+}
+
+export interface RssItemListResponse {
+  offset: number
+  total: number
+  items: RssItem[]
+}
+
+export interface RssFilter {
+  id: number
+  feed_id: number
+  name: string
+  match: string
+  not_match: string
+  destination: string
+  enabled: boolean
+}
+
+export type RssFilterInput = Omit<RssFilter, "id" | "feed_id">
+
+export interface RssFilterListResponse {
+  offset: number
+  total: number
+  filters: RssFilter[]
+}
+
+export interface BtSearchStartResponse {
+  id: string
+}
+
+export interface BtSearchResult {
+  id: string
+  title: string
+  download_uri: string
+  external_link?: string
+  size?: number
+  date?: number
+  seeds?: number
+  leechs?: number
+  module_id?: string
+  module_title?: string
+}
+
+export interface BtSearchListResponse {
+  is_running: boolean
+  offset: number
+  total: number
+  results: BtSearchResult[]
+}
+
 export type TaskStatusCode =
   | 1 // waiting
   | 2 // downloading
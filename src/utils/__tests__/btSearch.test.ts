@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test"
+import type { BtSearchResult } from "../../types/synology"
+import { sortBtSearchResults } from "../btSearch"
+
+const result = (id: string, extra: Partial<BtSearchResult>): BtSearchResult => ({
+  id,
+  title: id,
+  download_uri: `magnet:?xt=urn:btih:${id}`,
+  ...extra,
+})
+
+describe("sortBtSearchResults", () => {
+  const results = [
+    result("a", { seeds: 5, size: 300, module_title: "Nyaa" }),
+    result("b", { seeds: 50, size: 100, module_title: "Archive" }),
+    result("c", { size: 200, module_title: "Linux" }),
+  ]
+
+  test("sorts numerically with missing values as zero", () => {
+    expect(sortBtSearchResults(results, "seeds", true).map((entry) => entry.id)).toEqual(["b", "a", "c"])
+    expect(sortBtSearchResults(results, "size", false).map((entry) => entry.id)).toEqual(["b", "c", "a"])
+  })
+
+  test("sorts engines alphabetically", () => {
+    expect(sortBtSearchResults(results, "engine", false).map((entry) => entry.id)).toEqual(["b", "c", "a"])
+  })
+})
@@ -0,0 +1,15 @@
+import { describe, expect, test } from "bun:test"
+import { addRecentDestination, normalizeDestination, toFileStationPath } from "../destination"
+
+describe("destination helpers", () => {
+  test("normalizeDestination strips FileStation slashes", () => {
+    expect(normalizeDestination(" /downloads/movies/ ")).toBe("downloads/movies")
+    expect(toFileStationPath("downloads/movies")).toBe("/downloads/movies")
+  })
+
+  test("addRecentDestination moves repeats to the front and caps the list", () => {
+    expect(addRecentDestination(["a", "b", "c"], "b")).toEqual(["b", "a", "c"])
+    expect(addRecentDestination(["1", "2", "3", "4", "5"], "6")).toEqual(["6", "1", "2", "3", "4"])
+    expect(addRecentDestination(undefined, "x")).toEqual(["x"])
+  })
+})
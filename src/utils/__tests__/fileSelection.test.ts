@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test"
+import { compileFileSelector } from "../fileSelection"
+
+const files = ["Movie/movie.mkv", "Movie/Sample/sample.mkv", "Movie/extras/interview.mp4", "Movie/movie.nfo"]
+
+describe("compileFileSelector", () => {
+  test("globs match basenames unless they contain a slash", () => {
+    const match = compileFileSelector(["*.mkv"])
+    expect(files.filter(match)).toEqual(["Movie/movie.mkv", "Movie/Sample/sample.mkv"])
+    const scoped = compileFileSelector(["Movie/*.mkv"])
+    expect(files.filter(scoped)).toEqual(["Movie/movie.mkv"])
+  })
+
+  test("exclusions alone keep everything else", () => {
+    const match = compileFileSelector(["!/sample|extras/i"])
+    expect(files.filter(match)).toEqual(["Movie/movie.mkv", "Movie/movie.nfo"])
+  })
+
+  test("includes and excludes combine", () => {
+    const match = compileFileSelector(["**/*.mkv", "!*sample*"])
+    expect(files.filter(match)).toEqual(["Movie/movie.mkv"])
+  })
+
+  test("reports invalid regular expressions", () => {
+    expect(() => compileFileSelector(["/(/"])).toThrow("Invalid regular expression /(/")
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test"
-import { deriveProgress, formatBytes, formatPercent, formatSpeed } from "../formatting"
+import { deriveProgress, deriveUploadRatio, describeRssFilter, describeStatus, describeTaskError, fitColumn, formatAge, formatBytes, formatPercent, formatSpeed, formatTimestamp } from "../formatting"
 
 describe("formatting helpers", () => {
   test("formatBytes handles common ranges", () => {
@@ -30,4 +30,46 @@ describe("formatting helpers", () => {
     })
     expect(progress).toBe(75)
   })
+
+  test("describeStatus maps known codes and errors", () => {
+    expect(describeStatus(2)).toBe("downloading")
+    expect(describeStatus(8)).toBe("seeding")
+    expect(describeStatus(113)).toBe("error 113")
+    expect(describeStatus(42)).toBe("status 42")
+  })
+
+  test("deriveUploadRatio divides uploaded by downloaded bytes", () => {
+    expect(deriveUploadRatio({ additional: { transfer: { size_downloaded: 200, size_uploaded: 300 } } })).toBe(1.5)
+    expect(deriveUploadRatio({ additional: { transfer: { size_downloaded: 0, size_uploaded: 300 } } })).toBeUndefined()
+  })
+
+  test("describeTaskError explains DownloadStation2 task errors", () => {
+    expect(describeTaskError(404)).toBe("invalid task id")
+    expect(describeTaskError(999)).toBe("error 999")
+  })
+
+  test("describeRssFilter summarises match, exclude and destination", () => {
+    const filter = { name: "Show", match: "show 1080p", not_match: "", destination: "downloads/tv" }
+    expect(describeRssFilter(filter)).toBe('Show: "show 1080p" → downloads/tv')
+    expect(describeRssFilter({ ...filter, not_match: "cam" })).toBe('Show: "show 1080p" not "cam" → downloads/tv')
+  })
+
+  test("formatAge picks the two largest units", () => {
+    expect(formatAge(30_000)).toBe("just now")
+    expect(formatAge(5 * 60_000)).toBe("5m ago")
+    expect(formatAge(125 * 60_000)).toBe("2h 5m ago")
+    expect(formatAge(50 * 3_600_000)).toBe("2d 2h ago")
+  })
+
+  test("fitColumn pads short text and truncates long text", () => {
+    expect(fitColumn("abc", 10)).toBe("abc       ")
+    expect(fitColumn("abcdefghijkl", 10)).toBe("abcdefghi…")
+    expect(fitColumn("abcdefghijkl", 2)).toBe("abcdefg…")
+  })
+
+  test("formatTimestamp shows unset times as a dash", () => {
+    expect(formatTimestamp(undefined)).toBe("-")
+    expect(formatTimestamp(0)).toBe("-")
+    expect(formatTimestamp(1_700_000_000)).toBe(new Date(1_700_000_000_000).toLocaleString())
+  })
 })
@@ -0,0 +1,40 @@
+import { afterAll, describe, expect, test } from "bun:test"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { readJSONFile, withFileLock, writeJSONFile } from "../fs"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "synology-ds-fs-"))
+
+describe("JSON files", () => {
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test("writes through a temporary file and reports broken JSON", () => {
+    const file = path.join(dir, "data.json")
+    expect(readJSONFile(file)).toBeUndefined()
+    writeJSONFile(file, { a: 1 })
+    expect(readJSONFile<{ a: number }>(file)).toEqual({ a: 1 })
+    expect(fs.readdirSync(dir)).toEqual(["data.json"])
+    fs.writeFileSync(file, "{ broken")
+    expect(() => readJSONFile(file)).toThrow(`${file} is not valid JSON`)
+  })
+
+  test("holds a lock for the duration of the action and allows nesting", () => {
+    const file = path.join(dir, "locked.json")
+    const result = withFileLock(file, () => {
+      expect(fs.existsSync(`${file}.lock`)).toBe(true)
+      return withFileLock(file, () => "nested")
+    })
+    expect(result).toBe("nested")
+    expect(fs.existsSync(`${file}.lock`)).toBe(false)
+  })
+
+  test("takes over a lock left behind by a process that has exited", () => {
+    const file = path.join(dir, "stale.json")
+    const exited = Bun.spawnSync(["true"]).pid
+    fs.writeFileSync(`${file}.lock`, String(exited))
+    expect(withFileLock(file, () => "ran")).toBe("ran")
+  })
+})
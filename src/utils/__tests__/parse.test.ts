@@ -0,0 +1,18 @@
+import { describe, expect, test } from "bun:test"
+import { parseSwitch } from "../parse"
+
+describe("parseSwitch", () => {
+  test("accepts on/off style words in any case", () => {
+    expect(parseSwitch("on")).toBe(true)
+    expect(parseSwitch(" TRUE ")).toBe(true)
+    expect(parseSwitch("1")).toBe(true)
+    expect(parseSwitch("Off")).toBe(false)
+    expect(parseSwitch("no")).toBe(false)
+    expect(parseSwitch("0")).toBe(false)
+  })
+
+  test("returns undefined for anything else", () => {
+    expect(parseSwitch("maybe")).toBeUndefined()
+    expect(parseSwitch("")).toBeUndefined()
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test"
+import { formatRate, parseRate } from "../rates"
+
+describe("rate helpers", () => {
+  test("parseRate converts suffixed values to KB/s", () => {
+    expect(parseRate("500")).toBe(500)
+    expect(parseRate("500K")).toBe(500)
+    expect(parseRate("2.5M")).toBe(2560)
+    expect(parseRate("1GB/s")).toBe(1024 * 1024)
+    expect(parseRate("unlimited")).toBe(0)
+    expect(() => parseRate("fast")).toThrow("Invalid rate")
+  })
+
+  test("parseRate rejects byte and unknown suffixes", () => {
+    expect(parseRate("500KiB/s")).toBe(500)
+    expect(parseRate("500/s")).toBe(500)
+    expect(() => parseRate("500b")).toThrow("Invalid rate")
+    expect(() => parseRate("500 B/s")).toThrow("Invalid rate")
+    expect(() => parseRate("500t")).toThrow("Invalid rate")
+  })
+
+  test("formatRate renders 0 as unlimited", () => {
+    expect(formatRate(0)).toBe("unlimited")
+    expect(formatRate(512)).toBe("512 KB/s")
+    expect(formatRate(2560)).toBe("2.5 MB/s")
+    expect(formatRate(undefined)).toBe("-")
+  })
+})
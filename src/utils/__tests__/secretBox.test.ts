@@ -0,0 +1,17 @@
+import { describe, expect, test } from "bun:test"
+import { seal, unseal } from "../secretBox"
+
+describe("secret box", () => {
+  test("round-trips JSON and hides the plaintext", () => {
+    const box = seal({ username: "admin", password: "hunter2" }, "correct horse")
+    expect(JSON.stringify(box)).not.toContain("hunter2")
+    expect(unseal<Record<string, string>>(box, "correct horse")).toEqual({ username: "admin", password: "hunter2" })
+  })
+
+  test("rejects a wrong passphrase or tampered data", () => {
+    const box = seal({ a: 1 }, "right")
+    expect(() => unseal(box, "wrong")).toThrow("Wrong passphrase")
+    const tampered = { ...box, data: Buffer.from("garbage").toString("base64") }
+    expect(() => unseal(tampered, "right")).toThrow("Wrong passphrase")
+  })
+})
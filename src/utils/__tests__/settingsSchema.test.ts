@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test"
+import {
+  SETTINGS_EXPORT_VERSION,
+  findSetting,
+  parseSettingValue,
+  parseSettingsExport,
+  toSettingsExport,
+} from "../settingsSchema"
+
+describe("settings schema", () => {
+  test("parses command-line values by type", () => {
+    expect(parseSettingValue(findSetting("bt.port"), "51413")).toBe(51413)
+    expect(parseSettingValue(findSetting("unzip.enabled"), "on")).toBe(true)
+    expect(parseSettingValue(findSetting("bt.upload_rate"), "1M")).toBe(1024)
+    expect(parseSettingValue(findSetting("destination"), "downloads")).toBe("downloads")
+  })
+
+  test("rejects unknown keys and out-of-range values", () => {
+    expect(() => findSetting("bt.nope")).toThrow('Unknown setting "bt.nope"')
+    expect(() => parseSettingValue(findSetting("bt.port"), "70000")).toThrow("bt.port must be between 1 and 65535.")
+    expect(() => parseSettingValue(findSetting("tasks.max_concurrent"), "2.5")).toThrow("whole number")
+    expect(() => parseSettingValue(findSetting("unzip.enabled"), "maybe")).toThrow("on or off")
+  })
+
+  test("round-trips exports and reports every invalid field", () => {
+    const exported = toSettingsExport({
+      bt: { max_download_rate: 0, max_upload_rate: 100, tcp_port: 6881 },
+      location: { default_destination: "downloads" },
+    })
+    expect(exported.version).toBe(SETTINGS_EXPORT_VERSION)
+    expect(parseSettingsExport(JSON.parse(JSON.stringify(exported)))).toEqual(exported.settings)
+
+    expect(() =>
+      parseSettingsExport({
+        version: SETTINGS_EXPORT_VERSION,
+        settings: { bt: { tcp_port: "x", bogus: 1 }, weird: {} },
+      }),
+    ).toThrow(
+      "Invalid settings file:\nsettings.bt.tcp_port: bt.port must be a whole number.\nsettings.bt.bogus: unknown field\nsettings.weird: unknown section",
+    )
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test"
+import type { Task } from "../../types/synology"
+import { DEFAULT_TASK_QUERY, applyTaskQuery, clampScrollOffset, fuzzyMatch } from "../taskQuery"
+
+const makeTask = (id: string, title: string, status: number, extra: Partial<Task> = {}): Task => ({
+  id,
+  title,
+  status,
+  username: "admin",
+  type: "bt",
+  size: 100,
+  ...extra,
+})
+
+const tasks = [
+  makeTask("1", "Ubuntu 24.04 Desktop", 2, {
+    size: 400,
+    additional: { transfer: { size_downloaded: 100, speed_download: 50 }, detail: { created_time: 30 } },
+  }),
+  makeTask("2", "Debian netinst", 3, { size: 200, additional: { detail: { destination: "linux/isos", created_time: 10 } } }),
+  makeTask("3", "Fedora Workstation", 8, {
+    size: 300,
+    additional: { transfer: { size_downloaded: 300, speed_download: 0, speed_upload: 80 }, detail: { created_time: 20 } },
+  }),
+  makeTask("4", "Broken", 118),
+]
+
+describe("task query", () => {
+  test("fuzzyMatch matches subsequences case-insensitively", () => {
+    expect(fuzzyMatch("ubu2404", "Ubuntu 24.04")).toBe(true)
+    expect(fuzzyMatch("ubx", "Ubuntu")).toBe(false)
+    expect(fuzzyMatch("", "anything")).toBe(true)
+  })
+
+  test("search covers title and destination", () => {
+    const result = applyTaskQuery(tasks, { ...DEFAULT_TASK_QUERY, search: "isos" })
+    expect(result.map((task) => task.id)).toEqual(["2"])
+  })
+
+  test("status filters group related codes", () => {
+    expect(applyTaskQuery(tasks, { ...DEFAULT_TASK_QUERY, status: "errored" }).map((task) => task.id)).toEqual(["4"])
+    expect(applyTaskQuery(tasks, { ...DEFAULT_TASK_QUERY, status: "seeding" }).map((task) => task.id)).toEqual(["3"])
+    expect(applyTaskQuery(tasks, { ...DEFAULT_TASK_QUERY, status: "active" }).map((task) => task.id)).toEqual(["1"])
+  })
+
+  test("sorts by the chosen key in either direction", () => {
+    const bySpeed = applyTaskQuery(tasks, { ...DEFAULT_TASK_QUERY, sort: "speed" })
+    expect(bySpeed.map((task) => task.id)).toEqual(["3", "1", "2", "4"])
+    const byAdded = applyTaskQuery(tasks, { ...DEFAULT_TASK_QUERY, sort: "added", descending: false })
+    expect(byAdded.map((task) => task.id)).toEqual(["4", "2", "3", "1"])
+  })
+
+  test("clampScrollOffset keeps the selection in view", () => {
+    expect(clampScrollOffset(0, 12, 10, 50)).toBe(3)
+    expect(clampScrollOffset(20, 5, 10, 50)).toBe(5)
+    expect(clampScrollOffset(45, 49, 10, 50)).toBe(40)
+    expect(clampScrollOffset(8, 9, 10, 5)).toBe(0)
+  })
+})
@@ -0,0 +1,24 @@
+import type { BtSearchResult } from "../types/synology"
+
+export const BT_SEARCH_SORT_KEYS = ["seeds", "leechers", "size", "date", "engine"] as const
+
+export type BtSearchSortKey = (typeof BT_SEARCH_SORT_KEYS)[number]
+
+export function sortBtSearchResults(results: BtSearchResult[], key: BtSearchSortKey, descending: boolean): BtSearchResult[] {
+  const direction = descending ? -1 : 1
+  const compare = (a: BtSearchResult, b: BtSearchResult) => {
+    switch (key) {
+      case "seeds":
+        return (a.seeds ?? 0) - (b.seeds ?? 0)
+      case "leechers":
+        return (a.leechs ?? 0) - (b.leechs ?? 0)
+      case "size":
+        return (a.size ?? 0) - (b.size ?? 0)
+      case "date":
+        return (a.date ?? 0) - (b.date ?? 0)
+      case "engine":
+        return (a.module_title ?? "").localeCompare(b.module_title ?? "")
+    }
+  }
+  return [...results].sort((a, b) => compare(a, b) * direction)
+}
@@ -0,0 +1,15 @@
+const MAX_RECENT_DESTINATIONS = 5
+
+// Download Station wants destinations relative to the volume ("downloads/movies"),
+// while FileStation reports absolute share paths ("/downloads/movies").
+export function normalizeDestination(value: string): string {
+  return value.trim().replace(/^\/+/, "").replace(/\/+$/, "")
+}
+
+export function toFileStationPath(destination: string): string {
+  return `/${normalizeDestination(destination)}`
+}
+
+export function addRecentDestination(recent: string[] | undefined, destination: string): string[] {
+  return [destination, ...(recent ?? []).filter((entry) => entry !== destination)].slice(0, MAX_RECENT_DESTINATIONS)
+}
@@ -0,0 +1,70 @@
+/** Upgrades data stored at version `n` to version `n + 1`. */
+export type Migration = (data: Record<string, unknown>) => Record<string, unknown>
+
+/** Returns an error message, or undefined when the value is acceptable. */
+export type FieldCheck = (value: unknown) => string | undefined
+
+/**
+ * Runs the migrations a file needs to reach the current version (`migrations.length`) and strips the
+ * `version` field. Files written before versioning have no `version` and count as version 0.
+ */
+export function upgradeFile(raw: unknown, migrations: Migration[], label: string): Record<string, unknown> {
+  if (!isRecord(raw)) {
+    throw new Error(`${label} must contain a JSON object.`)
+  }
+  const { version = 0, ...data } = raw
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new Error(`${label} has an invalid version ${JSON.stringify(version)}.`)
+  }
+  if (version > migrations.length) {
+    throw new Error(
+      `${label} is version ${version}, newer than this synology-ds understands (${migrations.length}); upgrade synology-ds.`,
+    )
+  }
+  return migrations.slice(version).reduce((current, migrate) => migrate(current), data as Record<string, unknown>)
+}
+
+/** Checks each field of `value` and reports unknown ones, as `path.field: message` lines in `errors` (`field: message` when path is empty). */
+export function checkFields(value: unknown, fields: Record<string, FieldCheck>, path: string, errors: string[]) {
+  if (!isRecord(value)) {
+    errors.push(`${path || "file"}: expected an object`)
+    return
+  }
+  for (const [field, entry] of Object.entries(value)) {
+    const check = fields[field]
+    const problem = check ? (entry === undefined ? undefined : check(entry)) : "unknown field"
+    if (problem) {
+      errors.push(`${path ? `${path}.` : ""}${field}: ${problem}`)
+    }
+  }
+}
+
+export function throwIfInvalid(label: string, errors: string[]) {
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${label}:\n${errors.map((error) => `  ${error}`).join("\n")}`)
+  }
+}
+
+export const isString: FieldCheck = (value) => (typeof value === "string" ? undefined : "expected a string")
+
+export const isBoolean: FieldCheck = (value) => (typeof value === "boolean" ? undefined : "expected true or false")
+
+export const isPositiveInteger: FieldCheck = (value) =>
+  typeof value === "number" && Number.isInteger(value) && value > 0 ? undefined : "expected a positive whole number"
+
+export const isStringArray: FieldCheck = (value) =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string") ? undefined : "expected a list of strings"
+
+export const isObject: FieldCheck = (value) => (isRecord(value) ? undefined : "expected an object")
+
+export const isTimestamp: FieldCheck = (value) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value)) ? undefined : "expected an ISO timestamp"
+
+export const oneOf =
+  (allowed: readonly string[]): FieldCheck =>
+  (value) =>
+    typeof value === "string" && allowed.includes(value) ? undefined : `expected one of ${allowed.join(", ")}`
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,63 @@
+export type FileMatcher = (name: string) => boolean
+
+/**
+ * Compiles `--select` patterns into a predicate. Patterns wrapped in slashes
+ * (`/sample/i`) are regular expressions, everything else is a glob where `*`
+ * stays within a path segment and `**` crosses them. A leading `!` excludes.
+ * With only exclusions, every other file is selected.
+ */
+export function compileFileSelector(patterns: string[]): FileMatcher {
+  const includes: RegExp[] = []
+  const excludes: RegExp[] = []
+  for (const raw of patterns) {
+    const pattern = raw.trim()
+    if (!pattern) continue
+    if (pattern.startsWith("!")) {
+      excludes.push(compilePattern(pattern.slice(1)))
+    } else {
+      includes.push(compilePattern(pattern))
+    }
+  }
+  return (name) => {
+    if (excludes.some((regex) => regex.test(name))) return false
+    return includes.length === 0 || includes.some((regex) => regex.test(name))
+  }
+}
+
+function compilePattern(pattern: string): RegExp {
+  const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern)
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2])
+    } catch (error) {
+      throw new Error(`Invalid regular expression ${pattern}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  return globToRegExp(pattern)
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = ""
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index]
+    if (char === "*") {
+      if (glob[index + 1] === "*") {
+        source += ".*"
+        index += 1
+        if (glob[index + 1] === "/") {
+          index += 1
+          source += "/?"
+        }
+      } else {
+        source += "[^/]*"
+      }
+    } else if (char === "?") {
+      source += "[^/]"
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  // Globs without a slash match the file's basename anywhere in the torrent.
+  const anchored = glob.includes("/") ? `^${source}$` : `(^|/)${source}$`
+  return new RegExp(anchored, "i")
+}
@@ -28,3 +28,71 @@ export function deriveProgress(task: { additional?: { transfer?: { size_download
   if (!Number.isFinite(ratio)) return undefined
   return Math.min(100, Math.max(0, ratio))
 }
+
+export function describeStatus(status: number): string {
+  const map: Record<number, string> = {
+    1: "waiting",
+    2: "downloading",
+    3: "paused",
+    4: "finishing",
+    5: "finished",
+    6: "hash check",
+    7: "pre-seeding",
+    8: "seeding",
+    9: "filehost",
+    10: "extracting",
+    11: "preprocessing",
+    12: "verify",
+    13: "downloaded",
+    14: "postprocess",
+    15: "captcha",
+  }
+  return map[status] ?? (status >= 101 ? `error ${status}` : `status ${status}`)
+}
+
+export function deriveUploadRatio(task: { additional?: { transfer?: { size_downloaded?: number; size_uploaded?: number } } }): number | undefined {
+  const downloaded = task.additional?.transfer?.size_downloaded ?? 0
+  const uploaded = task.additional?.transfer?.size_uploaded ?? 0
+  if (downloaded <= 0) return undefined
+  return uploaded / downloaded
+}
+
+export function describeTaskError(code: number): string {
+  const map: Record<number, string> = {
+    400: "file upload failed",
+    401: "max number of tasks reached",
+    402: "destination denied",
+    403: "destination does not exist",
+    404: "invalid task id",
+    405: "invalid task action",
+    406: "no default destination",
+    407: "set destination failed",
+    408: "file does not exist",
+  }
+  return map[code] ?? `error ${code}`
+}
+
+export function describeRssFilter(filter: { name: string; match: string; not_match: string; destination: string }): string {
+  const exclude = filter.not_match ? ` not "${filter.not_match}"` : ""
+  return `${filter.name}: "${filter.match}"${exclude} → ${filter.destination}`
+}
+
+/** Formats a DSM epoch-seconds timestamp in local time; "-" when unset. */
+export function formatTimestamp(seconds?: number): string {
+  return seconds && seconds > 0 ? new Date(seconds * 1000).toLocaleString() : "-"
+}
+
+export function formatAge(milliseconds: number): string {
+  const minutes = Math.floor(milliseconds / 60_000)
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ${minutes % 60}m ago`
+  return `${Math.floor(hours / 24)}d ${hours % 24}h ago`
+}
+
+/** Pads or truncates `text` (with an ellipsis) to exactly `width` columns, never narrower than 8. */
+export function fitColumn(text: string, width: number): string {
+  const size = Math.max(width, 8)
+  return text.length > size ? `${text.slice(0, size - 1)}…` : text.padEnd(size)
+}
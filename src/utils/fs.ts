@@ -4,6 +4,13 @@ import os from "node:os"
 
 const CONFIG_DIR = path.join(os.homedir(), ".config", "synology-ds")
 
+const LOCK_TIMEOUT_MS = 5000
+const LOCK_RETRY_MS = 25
+// A lock this old is left over from a process that died before releasing it.
+const STALE_LOCK_MS = 30 * 1000
+
+const heldLocks = new Set<string>()
+
 export function ensureConfigDir(): string {
   if (!fs.existsSync(CONFIG_DIR)) {
     fs.mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 })
@@ -15,16 +22,89 @@ export function getConfigPath(fileName: string): string {
   return path.join(ensureConfigDir(), fileName)
 }
 
+/** Returns undefined when the file does not exist; a file that is not valid JSON is an error. */
 export function readJSONFile<T>(filePath: string): T | undefined {
-  if (!fs.existsSync(filePath)) return undefined
+  let raw: string
+  try {
+    raw = fs.readFileSync(filePath, "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined
+    throw error
+  }
   try {
-    const raw = fs.readFileSync(filePath, "utf8")
     return JSON.parse(raw) as T
-  } catch {
-    return undefined
+  } catch (error) {
+    throw new Error(`${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
   }
 }
 
+/** Writes to a temporary file and renames it over `filePath`, so readers never see a half-written file. */
 export function writeJSONFile<T>(filePath: string, data: T) {
-  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), { mode: 0o600 })
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  try {
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 })
+    fs.renameSync(tempPath, filePath)
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true })
+    throw error
+  }
+}
+
+/**
+ * Runs `action` while holding `<filePath>.lock`, so read-modify-write cycles from concurrent processes
+ * do not overwrite each other. Nested calls for the same file within one process reuse the lock.
+ */
+export function withFileLock<T>(filePath: string, action: () => T): T {
+  const lockPath = `${filePath}.lock`
+  if (heldLocks.has(lockPath)) {
+    return action()
+  }
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+  while (!tryLock(lockPath)) {
+    if (isStaleLock(lockPath)) {
+      fs.rmSync(lockPath, { force: true })
+      continue
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}; delete it if no other synology-ds process is running.`)
+    }
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS)
+  }
+  heldLocks.add(lockPath)
+  try {
+    return action()
+  } finally {
+    heldLocks.delete(lockPath)
+    fs.rmSync(lockPath, { force: true })
+  }
+}
+
+function tryLock(lockPath: string): boolean {
+  try {
+    fs.writeFileSync(lockPath, String(process.pid), { flag: "wx", mode: 0o600 })
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") return false
+    throw error
+  }
+}
+
+function isStaleLock(lockPath: string): boolean {
+  let owner: number
+  let age: number
+  try {
+    owner = Number(fs.readFileSync(lockPath, "utf8"))
+    age = Date.now() - fs.statSync(lockPath).mtimeMs
+  } catch {
+    // Released between our attempt and this check.
+    return false
+  }
+  if (age > STALE_LOCK_MS) return true
+  if (!Number.isInteger(owner) || owner <= 0 || owner === process.pid) return false
+  try {
+    process.kill(owner, 0)
+    return false
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ESRCH"
+  }
 }
@@ -0,0 +1,7 @@
+/** Reads on/off, true/false, yes/no or 1/0; undefined for anything else. */
+export function parseSwitch(raw: string): boolean | undefined {
+  const input = raw.trim()
+  if (/^(on|true|yes|1)$/i.test(input)) return true
+  if (/^(off|false|no|0)$/i.test(input)) return false
+  return undefined
+}
@@ -0,0 +1,47 @@
+import type { SchedulerSettings } from "../types/synology"
+
+const RATE_UNITS: Record<string, number> = {
+  "": 1,
+  k: 1,
+  m: 1024,
+  g: 1024 * 1024,
+}
+
+/**
+ * Parses a human rate ("500K", "2.5M", "unlimited") into the KB/s integer
+ * Download Station stores. 0 means unlimited.
+ */
+export function parseRate(value: string): number {
+  const input = value.trim().toLowerCase()
+  if (input === "unlimited" || input === "off" || input === "none") {
+    return 0
+  }
+  // A "B" only counts after K, M or G: DSM has no byte-level limits, so "500B" is rejected rather than read as KB.
+  const match = /^(\d+(?:\.\d+)?)\s*(?:([kmg])(?:i?b)?)?(?:\/s)?$/.exec(input)
+  if (!match) {
+    throw new Error(`Invalid rate "${value}". Use a number with an optional K, M or G suffix, or "unlimited".`)
+  }
+  return Math.round(Number.parseFloat(match[1]) * RATE_UNITS[match[2] ?? ""])
+}
+
+export function formatRate(kilobytesPerSecond?: number): string {
+  if (kilobytesPerSecond === undefined) return "-"
+  if (kilobytesPerSecond <= 0) return "unlimited"
+  const units = ["KB/s", "MB/s", "GB/s"]
+  let size = kilobytesPerSecond
+  let unitIndex = 0
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024
+    unitIndex += 1
+  }
+  return `${Number.isInteger(size) ? size : size.toFixed(1)} ${units[unitIndex]}`
+}
+
+export function describeSchedule(scheduler: SchedulerSettings): string {
+  if (!scheduler.enabled) return "off"
+  const alternative = [
+    scheduler.alternative_download_rate === undefined ? undefined : `↓ ${formatRate(scheduler.alternative_download_rate)}`,
+    scheduler.alternative_upload_rate === undefined ? undefined : `↑ ${formatRate(scheduler.alternative_upload_rate)}`,
+  ].filter(Boolean)
+  return alternative.length > 0 ? `scheduled (${alternative.join("  ")})` : "scheduled"
+}
@@ -0,0 +1,53 @@
+import crypto from "node:crypto"
+
+export interface SealedBox {
+  version: 1
+  salt: string
+  iv: string
+  tag: string
+  data: string
+}
+
+const KEY_LENGTH = 32
+
+export function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH)
+}
+
+/** Encrypts `value` as JSON with AES-256-GCM under a scrypt-derived key. Reusing `salt` keeps the same key. */
+export function seal(value: unknown, passphrase: string, salt: Buffer = crypto.randomBytes(16)): SealedBox {
+  return sealWithKey(value, deriveKey(passphrase, salt), salt)
+}
+
+export function unseal<T = unknown>(box: SealedBox, passphrase: string): T {
+  return unsealWithKey<T>(box, deriveKey(passphrase, Buffer.from(box.salt, "base64")))
+}
+
+/** Like `seal`, for callers that keep the derived key around instead of paying for scrypt on every write. */
+export function sealWithKey(value: unknown, key: Buffer, salt: Buffer): SealedBox {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv)
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()])
+  return {
+    version: 1,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  }
+}
+
+export function unsealWithKey<T = unknown>(box: SealedBox, key: Buffer): T {
+  if (box.version !== 1) {
+    throw new Error(`Unsupported encrypted file version ${String(box.version)}.`)
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(box.iv, "base64"))
+  decipher.setAuthTag(Buffer.from(box.tag, "base64"))
+  let plain: string
+  try {
+    plain = Buffer.concat([decipher.update(Buffer.from(box.data, "base64")), decipher.final()]).toString("utf8")
+  } catch {
+    throw new Error("Wrong passphrase, or the encrypted file is damaged.")
+  }
+  return JSON.parse(plain) as T
+}
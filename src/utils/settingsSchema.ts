@@ -0,0 +1,172 @@
+import type { SettingsPatch, SettingsSection } from "../types/synology"
+import { isRecord } from "./fileSchema"
+import { parseSwitch } from "./parse"
+import { formatRate, parseRate } from "./rates"
+
+export type SettingType = "string" | "integer" | "number" | "boolean" | "rate"
+
+export interface SettingDefinition {
+  key: string
+  section: SettingsSection
+  field: string
+  type: SettingType
+  description: string
+  min?: number
+  max?: number
+}
+
+export const SETTINGS_EXPORT_VERSION = 1
+
+export interface SettingsExport {
+  version: number
+  host?: string
+  exportedAt?: string
+  settings: SettingsPatch
+}
+
+export const SETTING_DEFINITIONS: SettingDefinition[] = [
+  { key: "destination", section: "location", field: "default_destination", type: "string", description: "Default download folder" },
+  { key: "tasks.max_concurrent", section: "global", field: "max_concurrent_tasks", type: "integer", min: 1, max: 100, description: "Maximum concurrent downloads" },
+  { key: "bt.port", section: "bt", field: "tcp_port", type: "integer", min: 1, max: 65535, description: "BitTorrent listening port" },
+  { key: "bt.max_peers", section: "bt", field: "max_peers", type: "integer", min: 1, max: 10000, description: "Maximum peers per torrent" },
+  { key: "bt.seeding_ratio", section: "bt", field: "seeding_ratio", type: "number", min: 0, description: "Stop seeding at this share ratio (0 = no limit)" },
+  { key: "bt.seeding_minutes", section: "bt", field: "seeding_interval", type: "integer", min: 0, description: "Stop seeding after this many minutes (0 = no limit)" },
+  { key: "bt.download_rate", section: "bt", field: "max_download_rate", type: "rate", description: "BitTorrent download limit" },
+  { key: "bt.upload_rate", section: "bt", field: "max_upload_rate", type: "rate", description: "BitTorrent upload limit" },
+  { key: "http.download_rate", section: "ftpHttp", field: "max_download_rate", type: "rate", description: "HTTP/FTP download limit" },
+  { key: "nzb.download_rate", section: "nzb", field: "max_download_rate", type: "rate", description: "NZB download limit" },
+  { key: "schedule.enabled", section: "scheduler", field: "enabled", type: "boolean", description: "Alternate-speed schedule" },
+  { key: "unzip.enabled", section: "autoExtraction", field: "enabled", type: "boolean", description: "Extract archives when downloads finish" },
+  { key: "unzip.delete_archive", section: "autoExtraction", field: "delete_archive", type: "boolean", description: "Delete archives after extraction" },
+  { key: "unzip.overwrite", section: "autoExtraction", field: "overwrite", type: "boolean", description: "Overwrite existing files when extracting" },
+]
+
+export function findSetting(key: string): SettingDefinition {
+  const definition = SETTING_DEFINITIONS.find((entry) => entry.key === key)
+  if (!definition) {
+    throw new Error(`Unknown setting "${key}". Available: ${SETTING_DEFINITIONS.map((entry) => entry.key).join(", ")}.`)
+  }
+  return definition
+}
+
+/** Parses a command-line value, accepting rate suffixes and on/off style booleans. */
+export function parseSettingValue(definition: SettingDefinition, raw: string): string | number | boolean {
+  const input = raw.trim()
+  switch (definition.type) {
+    case "boolean": {
+      const value = parseSwitch(input)
+      if (value === undefined) throw new Error(`${definition.key} must be on or off.`)
+      return value
+    }
+    case "rate":
+      return checkRange(definition, parseRate(input))
+    case "integer":
+    case "number": {
+      const value = Number(input)
+      if (input === "" || Number.isNaN(value)) {
+        throw new Error(`${definition.key} must be a number.`)
+      }
+      return validateSettingValue(definition, value)
+    }
+    case "string":
+      return validateSettingValue(definition, input)
+  }
+}
+
+/** Checks an already-typed value, as read from an export file. */
+export function validateSettingValue(definition: SettingDefinition, value: unknown): string | number | boolean {
+  switch (definition.type) {
+    case "boolean":
+      if (typeof value !== "boolean") throw new Error(`${definition.key} must be true or false.`)
+      return value
+    case "string":
+      if (typeof value !== "string" || value.trim() === "") throw new Error(`${definition.key} must be a non-empty string.`)
+      return value
+    case "integer":
+    case "rate":
+      if (typeof value !== "number" || !Number.isInteger(value)) throw new Error(`${definition.key} must be a whole number.`)
+      return checkRange(definition, value)
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) throw new Error(`${definition.key} must be a number.`)
+      return checkRange(definition, value)
+  }
+}
+
+export function readSetting(settings: SettingsPatch, definition: SettingDefinition): unknown {
+  const section = settings[definition.section] as Record<string, unknown> | undefined
+  return section?.[definition.field]
+}
+
+export function formatSettingValue(definition: SettingDefinition, value: unknown): string {
+  if (value === undefined || value === null) return "-"
+  if (definition.type === "rate" && typeof value === "number") return formatRate(value)
+  if (definition.type === "boolean") return value ? "on" : "off"
+  return String(value)
+}
+
+export function setSettingInPatch(patch: SettingsPatch, definition: SettingDefinition, value: unknown): SettingsPatch {
+  const section = { ...(patch[definition.section] ?? {}), [definition.field]: value }
+  return { ...patch, [definition.section]: section }
+}
+
+export function toSettingsExport(settings: SettingsPatch, host?: string): SettingsExport {
+  let patch: SettingsPatch = {}
+  for (const definition of SETTING_DEFINITIONS) {
+    const value = readSetting(settings, definition)
+    if (value !== undefined && value !== null) {
+      patch = setSettingInPatch(patch, definition, value)
+    }
+  }
+  return { version: SETTINGS_EXPORT_VERSION, host, exportedAt: new Date().toISOString(), settings: patch }
+}
+
+/**
+ * Validates an imported blob field by field and returns only the known settings.
+ * Every problem is collected so one run reports the whole file.
+ */
+export function parseSettingsExport(data: unknown): SettingsPatch {
+  if (!isRecord(data) || !isRecord(data.settings)) {
+    throw new Error('Settings file must be a JSON object with a "settings" property.')
+  }
+  if (data.version !== SETTINGS_EXPORT_VERSION) {
+    throw new Error(`Unsupported settings file version ${String(data.version)}; expected ${SETTINGS_EXPORT_VERSION}.`)
+  }
+  const errors: string[] = []
+  let patch: SettingsPatch = {}
+  for (const [sectionName, values] of Object.entries(data.settings)) {
+    const definitions = SETTING_DEFINITIONS.filter((entry) => entry.section === sectionName)
+    if (definitions.length === 0 || !isRecord(values)) {
+      errors.push(`settings.${sectionName}: unknown section`)
+      continue
+    }
+    for (const [field, value] of Object.entries(values)) {
+      const definition = definitions.find((entry) => entry.field === field)
+      if (!definition) {
+        errors.push(`settings.${sectionName}.${field}: unknown field`)
+        continue
+      }
+      try {
+        patch = setSettingInPatch(patch, definition, validateSettingValue(definition, value))
+      } catch (error) {
+        errors.push(`settings.${sectionName}.${field}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid settings file:\n${errors.join("\n")}`)
+  }
+  return patch
+}
+
+function checkRange(definition: SettingDefinition, value: number): number {
+  if (definition.type === "integer" && !Number.isInteger(value)) {
+    throw new Error(`${definition.key} must be a whole number.`)
+  }
+  if (definition.type === "rate" && value < 0) {
+    throw new Error(`${definition.key} must not be negative.`)
+  }
+  if ((definition.min !== undefined && value < definition.min) || (definition.max !== undefined && value > definition.max)) {
+    throw new Error(`${definition.key} must be between ${definition.min ?? "-∞"} and ${definition.max ?? "∞"}.`)
+  }
+  return value
+}
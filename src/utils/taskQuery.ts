@@ -0,0 +1,92 @@
+import type { Task } from "../types/synology"
+import { deriveProgress } from "./formatting"
+
+export const STATUS_FILTERS = ["all", "active", "paused", "finished", "errored", "seeding"] as const
+
+export type StatusFilter = (typeof STATUS_FILTERS)[number]
+
+export const SORT_KEYS = ["default", "speed", "progress", "size", "added"] as const
+
+export type SortKey = (typeof SORT_KEYS)[number]
+
+export interface TaskQuery {
+  search: string
+  status: StatusFilter
+  sort: SortKey
+  descending: boolean
+}
+
+export const DEFAULT_TASK_QUERY: TaskQuery = {
+  search: "",
+  status: "all",
+  sort: "default",
+  descending: true,
+}
+
+const STATUS_GROUPS: Record<Exclude<StatusFilter, "all">, number[]> = {
+  active: [1, 2, 4, 6, 9, 10, 11, 12, 14],
+  paused: [3],
+  finished: [5, 13],
+  errored: [15],
+  seeding: [7, 8],
+}
+
+export function matchesStatusFilter(task: Task, filter: StatusFilter): boolean {
+  if (filter === "all") return true
+  if (filter === "errored" && task.status >= 101) return true
+  return STATUS_GROUPS[filter].includes(task.status)
+}
+
+/** Case-insensitive subsequence match, so "ubu2404" finds "Ubuntu 24.04". */
+export function fuzzyMatch(query: string, text: string): boolean {
+  const needle = query.toLowerCase().replace(/\s+/g, "")
+  if (!needle) return true
+  const haystack = text.toLowerCase()
+  let position = 0
+  for (const char of needle) {
+    position = haystack.indexOf(char, position)
+    if (position === -1) return false
+    position += 1
+  }
+  return true
+}
+
+export function applyTaskQuery<T extends Task>(tasks: T[], query: TaskQuery): T[] {
+  const filtered = tasks.filter(
+    (task) =>
+      matchesStatusFilter(task, query.status) &&
+      (fuzzyMatch(query.search, task.title) || fuzzyMatch(query.search, task.additional?.detail?.destination ?? "")),
+  )
+  if (query.sort === "default") {
+    return filtered
+  }
+  const value = sortValue(query.sort)
+  const direction = query.descending ? -1 : 1
+  // Array#sort is stable, so ties keep the API order.
+  return [...filtered].sort((a, b) => (value(a) - value(b)) * direction)
+}
+
+function sortValue(key: Exclude<SortKey, "default">): (task: Task) => number {
+  switch (key) {
+    case "speed":
+      return (task) => (task.additional?.transfer?.speed_download ?? 0) + (task.additional?.transfer?.speed_upload ?? 0)
+    case "progress":
+      return (task) => deriveProgress(task) ?? 0
+    case "size":
+      return (task) => task.size ?? 0
+    case "added":
+      return (task) => task.additional?.detail?.created_time ?? 0
+  }
+}
+
+/** Returns the first visible row so that `selected` stays inside a window of `rows`. */
+export function clampScrollOffset(offset: number, selected: number, rows: number, total: number): number {
+  const windowSize = Math.max(rows, 1)
+  let next = offset
+  if (selected >= 0 && selected < next) {
+    next = selected
+  } else if (selected >= next + windowSize) {
+    next = selected - windowSize + 1
+  }
+  return Math.max(0, Math.min(next, Math.max(total - windowSize, 0)))
+}